@@ -0,0 +1,32 @@
+import type { Config } from '@netlify/functions';
+
+/**
+ * Scheduled trigger for server-side trip monitoring. The checks themselves
+ * run in the site's /api/monitors/run endpoint, alongside the rest of the
+ * pricing code; this only calls it every few minutes.
+ */
+export default async () => {
+    const siteUrl = process.env.URL;
+    const secret = process.env.MONITOR_RUN_SECRET;
+
+    if (!siteUrl) {
+        console.error('❌ URL environment variable not set, cannot reach the site');
+        return;
+    }
+
+    const response = await fetch(`${siteUrl}/api/monitors/run`, {
+        method: 'POST',
+        headers: secret ? { Authorization: `Bearer ${secret}` } : {},
+    });
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+        console.error(`❌ Monitor run failed: ${response.status}`, result);
+        return;
+    }
+    console.log(`🛰️ Monitor run: ${result.checked?.length ?? 0} of ${result.due ?? 0} due monitors checked`);
+};
+
+export const config: Config = {
+    schedule: '*/5 * * * *',
+};
@@ -0,0 +1,39 @@
+/**
+ * Local stand-in for the scheduled function in development: calls
+ * /api/monitors/run on the dev server every few minutes.
+ *
+ * Usage: npm run monitor (with `npm run dev` running)
+ *
+ * Environment Variables:
+ * - MONITOR_SITE_URL: Dev server (optional, defaults to 'http://localhost:4321')
+ * - MONITOR_TICK_SECONDS: Seconds between ticks (optional, defaults to 300)
+ * - MONITOR_RUN_SECRET: Sent as a bearer token when set
+ */
+
+import 'dotenv/config';
+
+const siteUrl = process.env.MONITOR_SITE_URL || 'http://localhost:4321';
+const tickSeconds = Number(process.env.MONITOR_TICK_SECONDS) || 300;
+const secret = process.env.MONITOR_RUN_SECRET;
+
+async function tick() {
+    try {
+        const response = await fetch(`${siteUrl}/api/monitors/run`, {
+            method: 'POST',
+            headers: secret ? { Authorization: `Bearer ${secret}` } : {},
+        });
+        const result = await response.json();
+
+        if (!response.ok) {
+            console.error(`❌ Monitor run failed: ${response.status}`, result);
+            return;
+        }
+        console.log(`🛰️ ${new Date().toLocaleTimeString()} ${result.checked.length} of ${result.due} due monitors checked`);
+    } catch (error) {
+        console.error(`❌ Could not reach ${siteUrl}:`, error.message);
+    }
+}
+
+console.log(`🛰️ Running due monitors on ${siteUrl} every ${tickSeconds}s (Ctrl+C to stop)`);
+await tick();
+setInterval(tick, tickSeconds * 1000);
@@ -0,0 +1,49 @@
+/**
+ * Local webhook receiver for trying notification channels in development:
+ * prints every delivery and checks its signature.
+ *
+ * Usage: npm run webhook-receiver, then add a webhook channel for
+ * http://localhost:4400/ and set WEBHOOK_SECRET to the secret it returns
+ *
+ * Environment Variables:
+ * - WEBHOOK_PORT: Port to listen on (optional, defaults to 4400)
+ * - WEBHOOK_SECRET: Channel secret to verify X-Guardian-Signature with (optional)
+ * - WEBHOOK_FAIL_STATUS: Answer every delivery with this status, to try retries (optional)
+ */
+
+import 'dotenv/config';
+import { createServer } from 'node:http';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+const port = Number(process.env.WEBHOOK_PORT) || 4400;
+const secret = process.env.WEBHOOK_SECRET;
+const failStatus = Number(process.env.WEBHOOK_FAIL_STATUS) || 0;
+
+function verify(signature, timestamp, body) {
+    const expected = `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+    return !!signature && signature.length === expected.length && timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+}
+
+createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => body += chunk);
+    request.on('end', () => {
+        const event = request.headers['x-guardian-event'];
+        const delivery = request.headers['x-guardian-delivery'];
+        const signature = request.headers['x-guardian-signature'];
+        const check = !secret ? '(no WEBHOOK_SECRET, signature not checked)'
+            : verify(signature, request.headers['x-guardian-timestamp'], body) ? '✅ signature valid' : '❌ signature INVALID';
+
+        console.log(`📨 ${new Date().toLocaleTimeString()} ${event} ${delivery} ${check}`);
+        try {
+            console.log(JSON.stringify(JSON.parse(body), null, 2));
+        } catch {
+            console.log(body);
+        }
+
+        response.writeHead(failStatus || 200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({ received: !failStatus }));
+    });
+}).listen(port, () => {
+    console.log(`📨 Receiving webhooks on http://localhost:${port}/ (Ctrl+C to stop)`);
+});
@@ -0,0 +1,7 @@
+/// <reference types="astro/client" />
+
+declare namespace App {
+  interface Locals {
+    user: import('./types/travel').SessionUser | null; // Set by src/middleware.ts
+  }
+}
@@ -0,0 +1,362 @@
+import type { AlertRule, AlertRuleType, DealAlert, PriceCheck, PriceSnapshot, TripDetails } from '../types/travel';
+import { listSmartBucket, readFromSmartBucket, readAllFromSmartBucket, saveToSmartBucket, deleteFromSmartBucket } from './raindrop.js';
+import { getPriceHistoryBucket, streamPriceHistory, tripHistoryKey, snapshotValue } from './price-history';
+import { getTripCategory } from './categories';
+import { describeUnitPrice } from './pricing';
+import { notifyDealAlerts } from './notifications';
+import { loadExchangeRates, roundForCurrency, DEFAULT_CURRENCY, type ExchangeRates } from './currency';
+import { randomUUID } from 'crypto';
+
+export const ALERT_RULE_TYPES: AlertRuleType[] = ['price-below', 'total-drop', 'all-time-low', 'price-jump'];
+
+const DEFAULT_WINDOW_DAYS = 7;
+const DEFAULT_STABLE_CHECKS = 3;
+export const DEFAULT_COOLDOWN_MINUTES = 360;
+
+/**
+ * How far checks may stray from their average and still count as stable
+ */
+const STABILITY_TOLERANCE = 0.02;
+
+const RULE_PREFIX = 'alert-rule-';
+const ALERT_PREFIX = 'deal-alert-';
+
+/**
+ * Why a rule can't be stored, or null when it can
+ */
+export function alertRuleError(rule: Partial<AlertRule>): string | null {
+  if (!rule.type || !ALERT_RULE_TYPES.includes(rule.type)) {
+    return `type must be one of: ${ALERT_RULE_TYPES.join(', ')}`;
+  }
+  if (rule.category !== undefined && !getTripCategory(rule.category)) {
+    return `Unknown category: ${rule.category}`;
+  }
+  if (rule.type === 'price-below' && !rule.category) {
+    return 'price-below rules need a category';
+  }
+  if (rule.type === 'total-drop' && rule.category) {
+    return 'total-drop rules watch the total, not a category';
+  }
+  if (rule.type === 'price-below' && !(typeof rule.threshold === 'number' && rule.threshold > 0)) {
+    return 'threshold must be a positive number';
+  }
+  if ((rule.type === 'total-drop' || rule.type === 'price-jump') && !(typeof rule.percent === 'number' && rule.percent > 0 && rule.percent < 100)) {
+    return 'percent must be between 0 and 100';
+  }
+  if (rule.windowDays !== undefined && !(Number.isInteger(rule.windowDays) && rule.windowDays > 0)) {
+    return 'windowDays must be a whole number of days';
+  }
+  if (rule.stableChecks !== undefined && !(Number.isInteger(rule.stableChecks) && rule.stableChecks >= 2)) {
+    return 'stableChecks must be a whole number of at least 2';
+  }
+  if (rule.cooldownMinutes !== undefined && !(Number.isInteger(rule.cooldownMinutes) && rule.cooldownMinutes >= 0)) {
+    return 'cooldownMinutes must be a whole number of minutes';
+  }
+  return null;
+}
+
+/**
+ * The rule fields of a request body, with form values turned into numbers.
+ * Missing fields are left out, so the result can also patch a rule.
+ */
+export function readRuleFields(body: any): Partial<AlertRule> {
+  const fields: Partial<AlertRule> = {};
+  const number = (value: unknown) => (value === '' || value === null ? undefined : Number(value));
+
+  if (body?.type !== undefined) fields.type = body.type;
+  if (body?.category !== undefined) fields.category = body.category || undefined;
+  for (const key of ['threshold', 'percent', 'windowDays', 'stableChecks', 'cooldownMinutes'] as const) {
+    if (body?.[key] !== undefined) fields[key] = number(body[key]);
+  }
+  if (body?.enabled !== undefined) fields.enabled = body.enabled === true || body.enabled === 'true';
+  return fields;
+}
+
+/**
+ * The parts of a price check alerts compare and keep: totals, each
+ * category's best unit price, and the route
+ */
+export function toSnapshot(priceCheck: PriceCheck, tripDetails: TripDetails, tripId?: string): PriceSnapshot {
+  return {
+    timestamp: priceCheck.timestamp,
+    currency: priceCheck.currency,
+    totalCost: priceCheck.totalCost,
+    withinTotalBudget: priceCheck.withinTotalBudget,
+    party: priceCheck.party,
+    costs: priceCheck.costs,
+    categories: Object.fromEntries(priceCheck.categoryInfo.map(info => {
+      const best = priceCheck.categories[info.id];
+      return [info.id, { [info.priceKey]: best?.[info.priceKey], [info.nameKey]: best?.[info.nameKey], source: best?.source }];
+    })),
+    tripDetails: {
+      origin: tripDetails.origin,
+      destination: tripDetails.destination,
+      startDate: tripDetails.startDate,
+      endDate: tripDetails.endDate,
+      legs: tripDetails.legs,
+    },
+    tripId,
+  };
+}
+
+interface Observation {
+  time: number;
+  value: number;
+}
+
+/**
+ * What a rule fired on
+ */
+interface RuleMatch {
+  value: number;
+  reference: number;
+  message: string;
+}
+
+const percentOf = (change: number, base: number) => Math.round((change / base) * 100);
+
+/**
+ * Whether the current check meets a rule's condition, ignoring cooldowns.
+ * `earlier` holds the trip's earlier checks, in any order; they are
+ * converted to the current check's currency.
+ */
+export function matchRule(rule: AlertRule, current: PriceSnapshot, earlier: PriceSnapshot[], rates: ExchangeRates, now = Date.now()): RuleMatch | null {
+  const currency = current.currency || DEFAULT_CURRENCY;
+  const category = rule.category ? getTripCategory(rule.category) : undefined;
+  const value = snapshotValue(current, category, currency, rates);
+  if (value === null) return null;
+
+  const label = category ? `${category.icon} ${category.label}` : 'Total';
+  const describe = (amount: number) => category
+    ? describeUnitPrice(category, amount, currency)
+    : `${currency} ${roundForCurrency(amount, currency)}`;
+  const history: Observation[] = earlier
+    .map(snapshot => ({ time: new Date(snapshot.timestamp || 0).getTime(), value: snapshotValue(snapshot, category, currency, rates) }))
+    .filter((observation): observation is Observation => observation.value !== null && observation.time < now)
+    .sort((a, b) => a.time - b.time);
+
+  switch (rule.type) {
+    case 'price-below': {
+      const threshold = rule.threshold!;
+      return value < threshold
+        ? { value, reference: threshold, message: `${label} dropped to ${describe(value)}, below ${describe(threshold)}` }
+        : null;
+    }
+
+    case 'total-drop': {
+      const windowDays = rule.windowDays || DEFAULT_WINDOW_DAYS;
+      const recent = history.filter(observation => observation.time >= now - windowDays * 86_400_000);
+      if (recent.length === 0) return null;
+      const average = recent.reduce((sum, observation) => sum + observation.value, 0) / recent.length;
+      return value <= average * (1 - rule.percent! / 100)
+        ? { value, reference: average, message: `${label} ${describe(value)} is ${percentOf(average - value, average)}% below its ${windowDays}-day average of ${describe(average)}` }
+        : null;
+    }
+
+    case 'all-time-low': {
+      if (history.length === 0) return null;
+      const lowest = Math.min(...history.map(observation => observation.value));
+      return value < lowest
+        ? { value, reference: lowest, message: `New all-time low: ${label} at ${describe(value)} (previous low ${describe(lowest)})` }
+        : null;
+    }
+
+    case 'price-jump': {
+      const stableChecks = rule.stableChecks || DEFAULT_STABLE_CHECKS;
+      const recent = history.slice(-stableChecks);
+      if (recent.length < stableChecks) return null;
+      const average = recent.reduce((sum, observation) => sum + observation.value, 0) / recent.length;
+      const stable = recent.every(observation => Math.abs(observation.value - average) <= average * STABILITY_TOLERANCE);
+      const previous = recent[recent.length - 1].value;
+      return stable && value >= previous * (1 + rule.percent! / 100)
+        ? { value, reference: previous, message: `${label} jumped ${percentOf(value - previous, previous)}% to ${describe(value)} after ${stableChecks} stable checks` }
+        : null;
+    }
+  }
+}
+
+/**
+ * Check a user's enabled rules against a new price check of one trip.
+ * A rule that fires stays quiet for that trip for its cooldown, and never
+ * fires twice on the same prices. Returns the alerts raised and the rules
+ * whose trigger state changed.
+ */
+export function evaluateRules(
+  rules: AlertRule[],
+  current: PriceSnapshot,
+  earlier: PriceSnapshot[],
+  rates: ExchangeRates,
+  options: { userId: string; snapshotKey?: string; now?: number }
+): { alerts: DealAlert[]; triggered: AlertRule[] } {
+  const { userId, snapshotKey, now = Date.now() } = options;
+  const tripKey = tripHistoryKey(current.tripDetails || {});
+  const currency = current.currency || DEFAULT_CURRENCY;
+  const alerts: DealAlert[] = [];
+  const triggered: AlertRule[] = [];
+
+  for (const rule of rules.filter(rule => rule.enabled)) {
+    const match = matchRule(rule, current, earlier, rates, now);
+    if (!match) continue;
+
+    const last = rule.lastTriggered?.[tripKey];
+    if (last && now - Date.parse(last.at) < rule.cooldownMinutes * 60_000) {
+      console.log(`🔕 Alert rule ${rule.id} cooling down`);
+      continue;
+    }
+
+    const fingerprint = [match.value, match.reference].map(amount => roundForCurrency(amount, currency)).join('|');
+    if (last?.fingerprint === fingerprint) {
+      continue;
+    }
+
+    const triggeredAt = new Date(now).toISOString();
+    alerts.push({
+      id: randomUUID(),
+      ruleId: rule.id,
+      userId,
+      type: rule.type,
+      category: rule.category,
+      message: match.message,
+      value: roundForCurrency(match.value, currency),
+      reference: roundForCurrency(match.reference, currency),
+      triggeredAt,
+      snapshotKey,
+      snapshot: current,
+    });
+    triggered.push({ ...rule, lastTriggered: { ...rule.lastTriggered, [tripKey]: { at: triggeredAt, fingerprint } } });
+  }
+
+  return { alerts, triggered };
+}
+
+/**
+ * Rules are keyed by user, so a user's are listed without reading anyone else's
+ */
+function ruleKey(userId: string, id: string): string {
+  return `${RULE_PREFIX}${userId}-${id}`;
+}
+
+export async function saveAlertRule(rule: AlertRule): Promise<void> {
+  await saveToSmartBucket(getPriceHistoryBucket(), ruleKey(rule.userId, rule.id), rule);
+}
+
+export async function getAlertRule(userId: string, id: string): Promise<AlertRule | null> {
+  return readFromSmartBucket(getPriceHistoryBucket(), ruleKey(userId, id));
+}
+
+export async function deleteAlertRule(rule: AlertRule): Promise<void> {
+  await deleteFromSmartBucket(getPriceHistoryBucket(), ruleKey(rule.userId, rule.id));
+}
+
+/**
+ * A user's alert rules, oldest first
+ */
+export async function listAlertRules(userId: string): Promise<AlertRule[]> {
+  const rules: AlertRule[] = await readAllFromSmartBucket(getPriceHistoryBucket(), `${RULE_PREFIX}${userId}-`);
+  // One user's id may begin another's, so the prefix alone isn't enough
+  return rules
+    .filter(rule => rule.userId === userId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function createAlertRule(userId: string, fields: Partial<AlertRule>, now = Date.now()): Promise<AlertRule> {
+  const timestamp = new Date(now).toISOString();
+  const rule: AlertRule = {
+    id: randomUUID(),
+    userId,
+    type: fields.type!,
+    category: fields.category,
+    threshold: fields.threshold,
+    percent: fields.percent,
+    windowDays: fields.windowDays,
+    stableChecks: fields.stableChecks,
+    cooldownMinutes: fields.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES,
+    enabled: fields.enabled ?? true,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+  await saveAlertRule(rule);
+  return rule;
+}
+
+/**
+ * A user's triggered alerts, newest first
+ */
+export async function listDealAlerts(userId: string, limit = 20): Promise<DealAlert[]> {
+  const bucketName = getPriceHistoryBucket();
+  const objects = (await listSmartBucket(bucketName, `${ALERT_PREFIX}${userId}-`))
+    .sort((a: any, b: any) => b.key.localeCompare(a.key))
+    .slice(0, limit);
+  const alerts = await Promise.all(objects.map((obj: any) => readFromSmartBucket(bucketName, obj.key).catch(() => null)));
+  // One user's id may begin another's, so the prefix alone isn't enough
+  return alerts.filter((alert): alert is DealAlert => alert?.userId === userId);
+}
+
+/**
+ * The trip's earlier checks the rules compare against: all of them for an
+ * all-time low, otherwise those inside the longest window. A saved trip's
+ * are listed by its id; other checks are matched by route and dates.
+ */
+async function loadEarlierChecks(
+  bucketName: string,
+  userId: string,
+  tripDetails: TripDetails,
+  rules: AlertRule[],
+  snapshotKey?: string,
+  tripId?: string
+): Promise<PriceSnapshot[]> {
+  // price-below needs no history, and price-jump only the checks just before this one
+  const windowDays = Math.max(0, ...rules.map(rule => rule.type === 'total-drop' ? rule.windowDays || DEFAULT_WINDOW_DAYS : 0));
+  const stableChecks = Math.max(0, ...rules.map(rule => rule.type === 'price-jump' ? rule.stableChecks || DEFAULT_STABLE_CHECKS : 0));
+  const from = rules.some(rule => rule.type === 'all-time-low') ? 0 : Date.now() - windowDays * 86_400_000;
+
+  const tripKey = tripHistoryKey(tripDetails);
+  const earlier: PriceSnapshot[] = [];
+  const older: PriceSnapshot[] = [];
+  for await (const snapshot of streamPriceHistory(bucketName, userId, { tripId })) {
+    if (snapshot.key === snapshotKey || (!tripId && tripHistoryKey(snapshot.tripDetails || {}) !== tripKey)) continue;
+    if (new Date(snapshot.timestamp || 0).getTime() >= from) {
+      earlier.push(snapshot);
+    } else {
+      // Checks before the window are kept only as far back as price-jump looks
+      older.push(snapshot);
+      if (older.length > stableChecks) older.shift();
+    }
+  }
+  return [...older, ...earlier];
+}
+
+/**
+ * Check the user's alert rules after a price check, store the alerts
+ * raised and the rules' new cooldowns, then send the alerts to the user's
+ * notification channels. `snapshotKey` is the check's entry
+ * in the price history, when it was stored; it is left out of the
+ * comparison. `tripId` is kept with the alerts of a saved trip.
+ */
+export async function checkDealAlerts(userId: string, tripDetails: TripDetails, priceCheck: PriceCheck, snapshotKey?: string, tripId?: string): Promise<DealAlert[]> {
+  const rules = (await listAlertRules(userId)).filter(rule => rule.enabled);
+  if (rules.length === 0) return [];
+
+  const bucketName = getPriceHistoryBucket();
+  const earlier = await loadEarlierChecks(bucketName, userId, tripDetails, rules, snapshotKey, tripId);
+
+  const rates = await loadExchangeRates();
+  const { alerts, triggered } = evaluateRules(rules, toSnapshot(priceCheck, tripDetails, tripId), earlier, rates, { userId, snapshotKey });
+
+  for (const alert of alerts) {
+    // The timestamp in the key keeps a user's alerts in time order
+    await saveToSmartBucket(bucketName, `${ALERT_PREFIX}${userId}-${Date.parse(alert.triggeredAt)}-${alert.ruleId}`, alert);
+    console.log(`🚨 Deal alert: ${alert.message}`);
+  }
+  for (const rule of triggered) {
+    await saveAlertRule(rule);
+  }
+
+  try {
+    await notifyDealAlerts(userId, alerts, tripDetails, priceCheck);
+  } catch (err) {
+    console.error('❌ Error sending deal alert notifications:', err);
+  }
+
+  return alerts;
+}
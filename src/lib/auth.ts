@@ -0,0 +1,231 @@
+import type { SessionUser, UserAccount } from '../types/travel';
+import { readFromSmartBucket, saveToSmartBucket, deleteFromSmartBucket } from './raindrop.js';
+import { getPriceHistoryBucket } from './price-history';
+import { EMAIL_PATTERN } from './notifications/email';
+import { createHash, createHmac, randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+export const SESSION_COOKIE = 'guardian_session';
+export const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+export const MAGIC_LINK_TTL_MINUTES = 15;
+export const MIN_PASSWORD_LENGTH = 10;
+const MAX_PASSWORD_LENGTH = 200;
+
+// Accounts are keyed by a hash of the email, so lookups need no listing
+const USER_PREFIX = 'auth-user-';
+const MAGIC_LINK_PREFIX = 'auth-link-';
+
+// Only used by `astro dev` when SESSION_SECRET is unset
+const DEV_SESSION_SECRET = 'travel-guardian-dev-session-secret';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+interface MagicLink {
+  email: string;
+  expiresAt: string;
+  passwordHash?: string; // Set by sign-up: the new account's password, kept until the email is confirmed
+}
+
+function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+function sessionSecret(): string {
+  const secret = process.env.SESSION_SECRET || import.meta.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (import.meta.env.DEV) return DEV_SESSION_SECRET;
+  throw new Error('SESSION_SECRET is not set');
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', sessionSecret()).update(payload).digest('base64url');
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Why an email can't be signed in with, or null when it can
+ */
+export function emailError(email: unknown): string | null {
+  return typeof email === 'string' && EMAIL_PATTERN.test(email.trim()) ? null : 'email must be an email address';
+}
+
+/**
+ * Why a password can't be used, or null when it can
+ */
+export function passwordError(password: unknown): string | null {
+  return typeof password === 'string' && password.length >= MIN_PASSWORD_LENGTH && password.length <= MAX_PASSWORD_LENGTH
+    ? null
+    : `password must be ${MIN_PASSWORD_LENGTH} to ${MAX_PASSWORD_LENGTH} characters`;
+}
+
+/**
+ * `scrypt$<salt>$<hash>`, both base64url
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 32);
+  return `scrypt$${salt.toString('base64url')}$${hash.toString('base64url')}`;
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, salt, expected] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !expected) return false;
+  const hash = await scryptAsync(password, Buffer.from(salt, 'base64url'), 32);
+  return timingSafeEqual(hash, Buffer.from(expected, 'base64url'));
+}
+
+export async function saveUser(user: UserAccount): Promise<void> {
+  await saveToSmartBucket(getPriceHistoryBucket(), `${USER_PREFIX}${sha256(user.email)}`, user);
+}
+
+export async function getUserByEmail(email: string): Promise<UserAccount | null> {
+  return readFromSmartBucket(getPriceHistoryBucket(), `${USER_PREFIX}${sha256(normalizeEmail(email))}`);
+}
+
+/**
+ * Create the account of an email whose owner has just redeemed a sign-in
+ * link. Returns null when the email already has an account, so a password
+ * can't be added to someone else's account.
+ */
+async function createUser(email: string, passwordHash?: string, now = Date.now()): Promise<UserAccount | null> {
+  if (await getUserByEmail(email)) return null;
+
+  const user: UserAccount = {
+    id: randomUUID(),
+    email: normalizeEmail(email),
+    passwordHash,
+    createdAt: new Date(now).toISOString(),
+  };
+  await saveUser(user);
+  return user;
+}
+
+/**
+ * The account the email and password sign in to, or null. Unknown emails
+ * take as long as wrong passwords, so they can't be told apart.
+ */
+export async function authenticate(email: string, password: string): Promise<UserAccount | null> {
+  const user = await getUserByEmail(email);
+  if (!user?.passwordHash) {
+    await hashPassword(password);
+    return null;
+  }
+  return await verifyPassword(password, user.passwordHash) ? user : null;
+}
+
+/**
+ * Store a one-time sign-in token for the email and return it. Only its hash
+ * is stored, so the bucket's contents can't be used to sign in. Sign-up
+ * passes the new account's password hash: the account is only created, with
+ * that password, once the link is redeemed from the inbox.
+ */
+export async function createMagicLink(email: string, passwordHash?: string, now = Date.now()): Promise<string> {
+  const token = randomBytes(32).toString('base64url');
+  const link: MagicLink = {
+    email: normalizeEmail(email),
+    expiresAt: new Date(now + MAGIC_LINK_TTL_MINUTES * 60_000).toISOString(),
+    passwordHash,
+  };
+  await saveToSmartBucket(getPriceHistoryBucket(), `${MAGIC_LINK_PREFIX}${sha256(token)}`, link);
+  return token;
+}
+
+/**
+ * The account a sign-in token is for, created on first sign-in, or null when
+ * the token is unknown, used or expired. A token works once. A sign-up
+ * link's password is only used for a new account: an existing one keeps its
+ * own.
+ */
+export async function redeemMagicLink(token: string, now = Date.now()): Promise<UserAccount | null> {
+  const bucketName = getPriceHistoryBucket();
+  const key = `${MAGIC_LINK_PREFIX}${sha256(token)}`;
+  const link: MagicLink | null = await readFromSmartBucket(bucketName, key);
+  if (!link) return null;
+
+  await deleteFromSmartBucket(bucketName, key);
+  if (Date.parse(link.expiresAt) <= now) return null;
+
+  return await getUserByEmail(link.email) || await createUser(link.email, link.passwordHash, now);
+}
+
+/**
+ * The site's own origin for links in emails: the site URL rather than the
+ * request's host, which the client controls
+ */
+export function siteOrigin(requestUrl: URL): string {
+  return (process.env.URL || import.meta.env.URL || requestUrl.origin).replace(/\/$/, '');
+}
+
+/**
+ * Where an emailed sign-in link leads
+ */
+export function magicLinkUrl(token: string, next: unknown, requestUrl: URL): string {
+  const params = new URLSearchParams({ token, ...(typeof next === 'string' ? { next } : {}) });
+  return `${siteOrigin(requestUrl)}/api/auth/callback?${params}`;
+}
+
+/**
+ * Remember when the user last signed in, and return who the session is for
+ */
+export async function recordSignIn(user: UserAccount, now = Date.now()): Promise<SessionUser> {
+  await saveUser({ ...user, lastSignInAt: new Date(now).toISOString() });
+  return { id: user.id, email: user.email };
+}
+
+/**
+ * Session cookie value: `<payload>.<signature>`, where the payload is the
+ * user and an expiry (base64url JSON) and the signature its HMAC-SHA256
+ * with SESSION_SECRET. Nothing is stored server-side.
+ */
+export function createSessionToken(user: SessionUser, now = Date.now()): string {
+  const payload = Buffer.from(JSON.stringify({
+    sub: user.id,
+    email: user.email,
+    exp: Math.floor(now / 1000) + SESSION_MAX_AGE_SECONDS,
+  })).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * The user a session cookie is for, or null when it is forged or expired
+ */
+export function readSessionToken(token: string, now = Date.now()): SessionUser | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const { sub, email, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    return typeof sub === 'string' && typeof email === 'string' && exp * 1000 > now ? { id: sub, email } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Options for Astro's cookies.set(). The cookie is sent over HTTPS only,
+ * except on plain-HTTP dev servers.
+ */
+export function sessionCookieOptions(url: URL) {
+  return {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: url.protocol === 'https:',
+    path: '/',
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  };
+}
+
+/**
+ * Where to send the user after signing in: a path on this site, never
+ * another site
+ */
+export function signInRedirect(next: string | null | undefined): string {
+  return next && next.startsWith('/') && !next.startsWith('//') && !next.startsWith('/\\') ? next : '/trips';
+}
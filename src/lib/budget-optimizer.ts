@@ -0,0 +1,178 @@
+import type { TripDetails, TripCategory, PriceSnapshot, BudgetAllocation, CategoryBudgets, PartySize } from '../types/travel';
+import { resolveLegs, resolveParty, daysBetween, unitCount } from './pricing';
+import { enabledCategories, isCategoryEnabledForLeg, categoryBudget, toCategoryInfo } from './categories';
+import { loadExchangeRates, convertAmount, roundForCurrency, DEFAULT_CURRENCY } from './currency';
+import { snapshotCategoryCost, snapshotUnitPrice } from './price-history';
+
+type CategoryCosts = Record<string, number>;
+
+/**
+ * How many recent price checks the expected costs are based on
+ */
+export const DEFAULT_OBSERVATION_LIMIT = 20;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function sameCity(a: string | undefined, b: string): boolean {
+  return !a || a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Nights (or days) a category is booked for over the whole trip
+ */
+function bookedNights(category: TripCategory, tripDetails: TripDetails): number {
+  const legs = resolveLegs(tripDetails);
+  if (category.scope !== 'stay') {
+    return daysBetween(legs[0].startDate, legs[legs.length - 1].endDate);
+  }
+  return legs
+    .filter(leg => isCategoryEnabledForLeg(category, tripDetails, leg))
+    .reduce((sum, leg) => sum + daysBetween(leg.startDate, leg.endDate), 0);
+}
+
+/**
+ * Whole-party category costs from one snapshot, in the trip currency.
+ * Snapshots from before party costs were recorded are costed from their
+ * unit prices with the current party and trip length. Returns null unless
+ * every category can be costed.
+ */
+function snapshotCosts(
+  snapshot: PriceSnapshot,
+  categories: Array<{ category: TripCategory; nights: number }>,
+  party: PartySize,
+  convert: (amount: number, from: string) => number | null
+): CategoryCosts | null {
+  const from = snapshot.currency || DEFAULT_CURRENCY;
+  const costs: CategoryCosts = {};
+
+  for (const { category, nights } of categories) {
+    let cost = snapshotCategoryCost(snapshot, category.id);
+
+    if (cost === undefined) {
+      const unitPrice = snapshotUnitPrice(snapshot, category);
+      if (typeof unitPrice !== 'number') return null;
+      cost = unitPrice * unitCount(category, party, nights);
+    }
+
+    const converted = convert(cost, from);
+    if (converted === null) return null;
+    costs[category.id] = converted;
+  }
+
+  return costs;
+}
+
+/**
+ * Propose category budgets that fit the trip's total budget, based on the
+ * median of recently observed prices for the same route. Any room left in
+ * the total budget is shared across categories in proportion to their
+ * expected cost. Returns null when there are no usable observations.
+ */
+export async function optimizeBudget(
+  tripDetails: TripDetails,
+  history: PriceSnapshot[],
+  limit: number = DEFAULT_OBSERVATION_LIMIT
+): Promise<BudgetAllocation | null> {
+  const currency = tripDetails.currency || DEFAULT_CURRENCY;
+  const rates = await loadExchangeRates();
+  const party = resolveParty(tripDetails);
+  const travelers = party.adults + party.children;
+  const budgetBasis = tripDetails.budgetBasis || 'trip';
+  const scale = budgetBasis === 'per-person' ? travelers : 1;
+
+  // Nights with a hotel, days with a car, and so on, across every leg
+  const categories = enabledCategories(tripDetails).map(category => ({ category, nights: bookedNights(category, tripDetails) }));
+  // How many times each budget applies: once for the trip, or every night or day booked
+  const budgetUnits = (category: TripCategory, nights: number) => (category.unit === 'traveler' ? 1 : nights);
+
+  const observed = history
+    .filter(snapshot => sameCity(snapshot.tripDetails?.origin, tripDetails.origin) && sameCity(snapshot.tripDetails?.destination, tripDetails.destination))
+    .sort((a, b) => new Date(b.timestamp || 0).getTime() - new Date(a.timestamp || 0).getTime())
+    .slice(0, limit)
+    .map(snapshot => snapshotCosts(snapshot, categories, party, (amount, from) => convertAmount(amount, from, currency, rates)))
+    .filter((costs): costs is CategoryCosts => costs !== null);
+
+  if (observed.length === 0) {
+    return null;
+  }
+
+  const round = (amount: number) => roundForCurrency(amount, currency);
+  const money = (amount: number) => `${currency} ${round(amount)}`;
+  const basisLabel = budgetBasis === 'per-person' ? ' per person' : '';
+
+  const expectedCosts: CategoryCosts = Object.fromEntries(
+    categories.map(({ category }) => [category.id, round(median(observed.map(costs => costs[category.id])))])
+  );
+  const expectedTotal = round(Object.values(expectedCosts).reduce((sum, cost) => sum + cost, 0));
+  const totalBudget = round(tripDetails.totalBudget * scale);
+  const shortfall = round(Math.max(0, expectedTotal - totalBudget));
+  const minimumTotalBudget = Math.ceil(expectedTotal / scale);
+
+  // Categories without a budget are left out: any price fits them
+  const current: CategoryBudgets = {};
+  for (const { category } of categories) {
+    const budget = categoryBudget(category, tripDetails);
+    if (budget !== null) current[category.id] = budget;
+  }
+
+  const allocation = {
+    currency,
+    budgetBasis,
+    observations: observed.length,
+    categories: categories.map(({ category }) => toCategoryInfo(category, tripDetails)),
+    expectedCosts,
+    expectedTotal,
+    totalBudget,
+    minimumTotalBudget,
+    current,
+  };
+  const explanation: string[] = [];
+
+  if (shortfall > 0) {
+    const [largest] = [...categories].sort((a, b) => expectedCosts[b.category.id] - expectedCosts[a.category.id]);
+    const largestCost = expectedCosts[largest.category.id];
+
+    explanation.push(`Recent prices add up to about ${money(expectedTotal)} for the whole party, but the total budget is ${money(totalBudget)}: ${money(shortfall)} short.`);
+    explanation.push(`${largest.category.label} is the largest cost at ${money(largestCost)} (${Math.round((largestCost / expectedTotal) * 100)}% of the trip).`);
+    explanation.push(`No split of the current total covers every category. Raise the total budget to at least ${currency} ${minimumTotalBudget}${basisLabel}, or look for cheaper dates.`);
+
+    return { ...allocation, feasible: false, shortfall, suggested: null, apply: null, explanation };
+  }
+
+  // Share the spare budget in proportion to each category's expected cost.
+  // Budgets are rounded down to whole units so they never add up to more than the total.
+  const headroom = expectedTotal > 0 ? totalBudget / expectedTotal : 1;
+  const suggested: CategoryBudgets = {};
+  const apply: Partial<TripDetails> = {};
+
+  for (const { category, nights } of categories) {
+    const units = budgetUnits(category, nights);
+    if (units === 0) continue;
+
+    const budget = Math.floor((expectedCosts[category.id] * headroom) / units / scale);
+    suggested[category.id] = budget;
+    if (category.budgetField) {
+      apply[category.budgetField] = budget;
+    } else {
+      apply.budgets = { ...tripDetails.budgets, ...apply.budgets, [category.id]: budget };
+    }
+  }
+
+  const short = categories
+    .filter(({ category, nights }) => category.id in current && current[category.id] * scale * budgetUnits(category, nights) < expectedCosts[category.id])
+    .map(({ category }) => category.label.toLowerCase());
+
+  explanation.push(`Recent prices add up to about ${money(expectedTotal)} for the whole party, within the total budget of ${money(totalBudget)}.`);
+  if (short.length > 0) {
+    explanation.push(`The current split leaves ${short.join(' and ')} under-funded compared with recent prices.`);
+  } else {
+    explanation.push('The current split already covers recent prices in every category.');
+  }
+  explanation.push(`The suggested budgets give every category ${Math.round((headroom - 1) * 100)}% headroom over recent prices.`);
+
+  return { ...allocation, feasible: true, shortfall: 0, suggested, apply, explanation };
+}
@@ -0,0 +1,135 @@
+import type { CacheInfo } from '../types/travel';
+
+export interface ResultCacheOptions<T> {
+  ttlSeconds: number; // Entries younger than this are served as they are
+  staleSeconds: number; // After the TTL, entries are still served for this long while a refresh runs
+  maxEntries?: number; // Oldest entries are dropped beyond this (default 500)
+  shouldCache?: (value: T) => boolean; // Results to keep (default: all)
+}
+
+export interface CachedResult<T> {
+  value: T;
+  cache: CacheInfo;
+}
+
+export interface ResultCache<T> {
+  get(key: string, load: () => Promise<T>): Promise<CachedResult<T>>;
+  clear(): void;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  fetchedAt: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+/**
+ * In-memory cache of upstream results, shared by every request the server
+ * instance handles:
+ * - fresh entries (younger than the TTL) are served without a search
+ * - stale entries are served too, and refreshed in the background
+ * - anything older is loaded again before answering
+ * Concurrent loads of the same key share one upstream call. A failed
+ * refresh leaves the stale entry in place.
+ */
+export function createResultCache<T>(options: ResultCacheOptions<T>): ResultCache<T> {
+  const { ttlSeconds, staleSeconds, maxEntries = DEFAULT_MAX_ENTRIES, shouldCache = () => true } = options;
+  const entries = new Map<string, CacheEntry<T>>();
+  const inFlight = new Map<string, Promise<CacheEntry<T>>>();
+
+  function load(key: string, loader: () => Promise<T>): Promise<CacheEntry<T>> {
+    const pending = inFlight.get(key);
+    if (pending) return pending;
+
+    const promise = loader()
+      .then(value => {
+        const entry = { value, fetchedAt: Date.now() };
+        if (ttlSeconds > 0 && shouldCache(value)) {
+          // Re-inserting keeps the map in age order, so the first key is the oldest
+          entries.delete(key);
+          entries.set(key, entry);
+          if (entries.size > maxEntries) {
+            entries.delete(entries.keys().next().value as string);
+          }
+        }
+        return entry;
+      })
+      .finally(() => inFlight.delete(key));
+
+    inFlight.set(key, promise);
+    return promise;
+  }
+
+  function toResult(entry: CacheEntry<T>, hit: boolean, stale: boolean, coalesced = false): CachedResult<T> {
+    return {
+      value: entry.value,
+      cache: {
+        hit,
+        stale,
+        coalesced,
+        ageSeconds: Math.round((Date.now() - entry.fetchedAt) / 1000),
+        fetchedAt: new Date(entry.fetchedAt).toISOString(),
+      },
+    };
+  }
+
+  return {
+    async get(key, loader) {
+      const entry = entries.get(key);
+      const ageSeconds = entry ? (Date.now() - entry.fetchedAt) / 1000 : Infinity;
+
+      if (entry && ageSeconds < ttlSeconds) {
+        return toResult(entry, true, false);
+      }
+
+      if (entry && ageSeconds < ttlSeconds + staleSeconds) {
+        load(key, loader).catch(error => console.error(`❌ Cache refresh failed for ${key}:`, error));
+        return toResult(entry, true, true);
+      }
+
+      const coalesced = inFlight.has(key);
+      return toResult(await load(key, loader), false, false, coalesced);
+    },
+
+    clear() {
+      entries.clear();
+    },
+  };
+}
+
+/**
+ * Stable text key for a query: object keys sorted, strings trimmed and
+ * lower-cased, empty values dropped, so equivalent queries share an entry
+ */
+export function normaliseCacheKey(value: unknown): string {
+  const normalise = (item: unknown): unknown => {
+    if (typeof item === 'string') return item.trim().toLowerCase();
+    if (Array.isArray(item)) return item.map(normalise);
+    if (item && typeof item === 'object') {
+      return Object.fromEntries(Object.entries(item)
+        .filter(([, v]) => v !== undefined && v !== null && v !== '')
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([k, v]) => [k, normalise(v)]));
+    }
+    return item;
+  };
+  return JSON.stringify(normalise(value));
+}
+
+/**
+ * Cache status of a result built from several cached parts: a hit only if
+ * every part was, as old as the oldest part
+ */
+export function combineCacheInfo(parts: Array<CacheInfo | undefined>): CacheInfo | undefined {
+  const known = parts.filter((part): part is CacheInfo => !!part);
+  if (known.length === 0 || known.length < parts.length) return undefined;
+
+  return {
+    hit: known.every(part => part.hit),
+    stale: known.some(part => part.stale),
+    coalesced: known.some(part => part.coalesced),
+    ageSeconds: Math.max(...known.map(part => part.ageSeconds)),
+    fetchedAt: known.map(part => part.fetchedAt).sort()[0],
+  };
+}
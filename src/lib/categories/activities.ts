@@ -0,0 +1,20 @@
+import { createGenericCategory } from './generic';
+
+/**
+ * Tours and attraction passes at each stop, priced per traveler
+ */
+export const activitiesCategory = createGenericCategory({
+  id: 'activities',
+  label: 'Activities',
+  icon: '🎟️',
+  unit: 'traveler',
+  scope: 'stay',
+  defaultEnabled: false,
+  priceUnit: 'price per person',
+  nameLabel: 'tour or attraction name',
+  typicalPrice: [25, 150],
+  examples: ['City walking tour', 'Museum pass', 'Food tour', 'Boat cruise', 'Day trip'],
+  domains: ['viator.com', 'getyourguide.com', 'tripadvisor.com', 'klook.com'],
+  describe: ({ destination, startDate, endDate }) =>
+    `top-rated tours and attraction tickets in ${destination} between ${startDate} and ${endDate}`,
+});
@@ -0,0 +1,30 @@
+import type { TripCategory, CarOffer } from '../../types/travel';
+import { checkCarPreferences } from '../compliance';
+
+/**
+ * Rental cars, priced per day
+ */
+export const carCategory: TripCategory<CarOffer> = {
+  id: 'car',
+  label: 'Car Rental',
+  icon: '🚗',
+  unit: 'day',
+  scope: 'stay',
+  priceKey: 'pricePerDay',
+  nameKey: 'type',
+  defaultEnabled: true,
+  budgetField: 'carBudgetPerDay',
+  legField: 'needsCar',
+
+  search({ destination, startDate, tripDetails }, sources) {
+    return sources.collect<CarOffer>('car rental', provider => provider.searchCars({
+      destination,
+      pickupDate: startDate,
+      preferences: tripDetails.carRentalPreferences,
+    }), 'pricePerDay');
+  },
+
+  checkPreferences(offer, tripDetails) {
+    return checkCarPreferences(offer, tripDetails.carRentalPreferences);
+  },
+};
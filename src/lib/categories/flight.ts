@@ -0,0 +1,138 @@
+import type { TripCategory, FlightOffer, FlightSearchParams, FlightSegment } from '../../types/travel';
+import { rankOffers, joinDistinct } from '../offers';
+import { roundForCurrency } from '../currency';
+import { derivedProvenance } from '../confidence';
+import { checkFlightPreferences } from '../compliance';
+
+/**
+ * How many of the cheapest one-way fares per direction are paired into
+ * separate-ticket round trips
+ */
+const ONE_WAY_PAIRS_PER_DIRECTION = 3;
+
+/**
+ * Join an outbound and a return one-way fare into a two-ticket round trip
+ */
+function pairOneWayFares(outbound: FlightOffer, inbound: FlightOffer, currency: string): FlightOffer {
+  const join = (a: string, b: string) => joinDistinct([a, b]);
+  const leg = (offer: FlightOffer) => ({ ...offer.segments[0], carrier: offer.carrier, price: offer.price });
+
+  return {
+    price: roundForCurrency(outbound.price + inbound.price, currency),
+    carrier: join(outbound.carrier, inbound.carrier),
+    tripType: 'round-trip',
+    bundled: false,
+    segments: [{ ...leg(outbound), direction: 'outbound' }, { ...leg(inbound), direction: 'return' }],
+    currency,
+    source: join(outbound.source, inbound.source),
+    ...derivedProvenance([outbound, inbound]),
+    vendor: join(outbound.vendor, inbound.vendor),
+    bookingUrl: outbound.bookingUrl || inbound.bookingUrl,
+    snippet: [outbound.snippet, inbound.snippet].filter(Boolean).join(' | ') || undefined,
+    ...sharedFlightDetails([outbound, inbound]),
+  };
+}
+
+/**
+ * What every flight of a combined fare states alike: the most stops, the
+ * fewest included bags, legroom only when every flight has it. The first
+ * flight's departure time is kept.
+ */
+function sharedFlightDetails(flights: FlightOffer[]): Pick<FlightOffer, 'stops' | 'departureTime' | 'checkedBags' | 'extraLegroom'> {
+  const all = <K extends keyof FlightOffer>(key: K) => flights.every(flight => flight[key] !== undefined);
+  return {
+    stops: all('stops') ? Math.max(...flights.map(flight => flight.stops as number)) : undefined,
+    departureTime: flights[0].departureTime,
+    checkedBags: all('checkedBags') ? Math.min(...flights.map(flight => flight.checkedBags as number)) : undefined,
+    extraLegroom: all('extraLegroom') ? flights.every(flight => flight.extraLegroom) : undefined,
+  };
+}
+
+/**
+ * Flights, priced per passenger. Round trips are priced both as a single
+ * return ticket and as two one-way tickets, so whichever is cheaper wins.
+ * Only the return-ticket search falls back to simulation; one-way pairs
+ * are only offered when the provider prices both directions.
+ */
+export const flightCategory: TripCategory<FlightOffer> = {
+  id: 'flight',
+  label: 'Flight',
+  icon: '✈️',
+  unit: 'traveler',
+  scope: 'transport',
+  priceKey: 'price',
+  nameKey: 'carrier',
+  defaultEnabled: true,
+  budgetField: 'flightBudget',
+
+  async search({ origin, destination, startDate, returnDate, party, tripDetails }, sources) {
+    const params: FlightSearchParams = {
+      origin,
+      destination,
+      departureDate: startDate,
+      returnDate,
+      adults: party.adults,
+      children: party.children,
+      preferences: tripDetails.flightPreferences,
+    };
+    const roundTrip = () => sources.collect<FlightOffer>('flight', provider => provider.searchFlights(params), 'price');
+
+    if (!params.returnDate) {
+      return roundTrip();
+    }
+
+    const { returnDate: _returnDate, ...outboundSearch } = params;
+    const returnSearch: FlightSearchParams = {
+      ...outboundSearch,
+      origin: params.destination,
+      destination: params.origin,
+      departureDate: params.returnDate,
+    };
+
+    const [bundled, outbound, inbound] = await Promise.all([
+      roundTrip(),
+      sources.searchOnly<FlightOffer>('outbound flight', provider => provider.searchFlights(outboundSearch), 'price'),
+      sources.searchOnly<FlightOffer>('return flight', provider => provider.searchFlights(returnSearch), 'price'),
+    ]);
+
+    const cheapestOutbound = rankOffers(outbound.offers, o => o.price).slice(0, ONE_WAY_PAIRS_PER_DIRECTION);
+    const cheapestReturn = rankOffers(inbound.offers, o => o.price).slice(0, ONE_WAY_PAIRS_PER_DIRECTION);
+    const pairs = cheapestOutbound.flatMap(out => cheapestReturn.map(ret => pairOneWayFares(out, ret, sources.currency)));
+
+    console.log(`🔁 Round trip: ${bundled.offers.length} return fares, ${pairs.length} one-way pairs`);
+
+    return {
+      offers: [...bundled.offers, ...pairs],
+      unparsed: [...bundled.unparsed, ...outbound.unparsed, ...inbound.unparsed],
+    };
+  },
+
+  /**
+   * One multi-city fare with a segment per hop
+   */
+  chain(hops, returnHop, currency) {
+    const flights = returnHop ? [...hops, returnHop] : hops;
+    const segments: FlightSegment[] = flights.map(flight => ({ ...flight.segments[0], carrier: flight.carrier, price: flight.price }));
+    if (returnHop) {
+      segments[segments.length - 1].direction = 'return';
+    }
+
+    return {
+      price: roundForCurrency(flights.reduce((sum, flight) => sum + flight.price, 0), currency),
+      carrier: joinDistinct(flights.map(f => f.carrier)),
+      tripType: 'multi-city',
+      bundled: false,
+      segments,
+      currency,
+      source: joinDistinct(flights.map(f => f.source)),
+      ...derivedProvenance(flights),
+      vendor: joinDistinct(flights.map(f => f.vendor)),
+      bookingUrl: flights[0].bookingUrl,
+      ...sharedFlightDetails(flights),
+    };
+  },
+
+  checkPreferences(offer, tripDetails) {
+    return checkFlightPreferences(offer, tripDetails.flightPreferences);
+  },
+};
@@ -0,0 +1,64 @@
+import type { TripCategory, CategoryOffer, CategorySearchParams, CategorySearchRequest, ProviderResult } from '../../types/travel';
+
+/**
+ * What a category priced through PriceProvider.searchCategory() needs to
+ * describe itself to providers
+ */
+export interface GenericCategoryDefinition
+  extends Pick<TripCategory, 'id' | 'label' | 'icon' | 'unit' | 'scope' | 'defaultEnabled'>,
+    Pick<CategorySearchParams, 'priceUnit' | 'nameLabel' | 'typicalPrice' | 'examples' | 'domains'> {
+  describe(request: CategorySearchRequest): string; // What to search for, e.g. 'train tickets from Paris to Rome ...'
+}
+
+const NO_OFFERS: ProviderResult<CategoryOffer> = { offers: [], unparsed: [] };
+
+/**
+ * Build a category whose offers come from PriceProvider.searchCategory().
+ * Providers without that method return no offers, so the category falls
+ * back to simulation. Its budget lives in TripDetails.budgets.
+ *
+ * @example
+ * registerTripCategory(createGenericCategory({ id: 'parking', label: 'Parking', ... }));
+ */
+export function createGenericCategory(definition: GenericCategoryDefinition): TripCategory<CategoryOffer> {
+  const { describe, priceUnit, nameLabel, typicalPrice, examples, domains, ...category } = definition;
+
+  return {
+    ...category,
+    priceKey: 'price',
+    nameKey: 'name',
+
+    search(request, sources) {
+      const params: CategorySearchParams = {
+        category: category.id,
+        label: category.label,
+        description: describe(request),
+        priceUnit,
+        nameLabel,
+        typicalPrice,
+        examples,
+        domains,
+        origin: request.origin,
+        destination: request.destination,
+        startDate: request.startDate,
+        endDate: request.endDate,
+        returnDate: request.returnDate,
+        travelers: request.party.adults + request.party.children,
+      };
+
+      return sources.collect<CategoryOffer>(
+        category.label.toLowerCase(),
+        provider => (provider.searchCategory ? provider.searchCategory(params) : Promise.resolve(NO_OFFERS)),
+        'price'
+      );
+    },
+  };
+}
+
+/**
+ * '... from A to B departing on <date>', plus the return date for round trips
+ */
+export function describeJourney(what: string, { origin, destination, startDate, returnDate }: CategorySearchRequest): string {
+  const trip = returnDate ? `round-trip ${what}` : `one-way ${what}`;
+  return `${trip} from ${origin} to ${destination} departing on ${startDate}${returnDate ? ` and returning on ${returnDate}` : ''}`;
+}
@@ -0,0 +1,32 @@
+import type { TripCategory, HotelOffer } from '../../types/travel';
+import { checkHotelPreferences } from '../compliance';
+
+/**
+ * Hotels, priced per room per night
+ */
+export const hotelCategory: TripCategory<HotelOffer> = {
+  id: 'hotel',
+  label: 'Hotel',
+  icon: '🏨',
+  unit: 'room-night',
+  scope: 'stay',
+  priceKey: 'pricePerNight',
+  nameKey: 'name',
+  defaultEnabled: true,
+  budgetField: 'hotelBudgetPerNight',
+  legField: 'needsHotel',
+
+  search({ destination, startDate, party, tripDetails }, sources) {
+    return sources.collect<HotelOffer>('hotel', provider => provider.searchHotels({
+      destination,
+      checkInDate: startDate,
+      guests: party.adults + party.children,
+      rooms: party.rooms,
+      preferences: tripDetails.hotelPreferences,
+    }), 'pricePerNight');
+  },
+
+  checkPreferences(offer, tripDetails) {
+    return checkHotelPreferences(offer, tripDetails.hotelPreferences);
+  },
+};
@@ -0,0 +1,76 @@
+import type { TripCategory, TripDetails, TripLeg, CategoryInfo } from '../../types/travel';
+import { flightCategory } from './flight';
+import { hotelCategory } from './hotel';
+import { carCategory } from './car';
+import { railCategory, ferryCategory, busCategory } from './transit';
+import { activitiesCategory } from './activities';
+import { insuranceCategory } from './insurance';
+
+export { createGenericCategory, describeJourney, type GenericCategoryDefinition } from './generic';
+
+/**
+ * Registry of priceable trip components, keyed by id, in display order.
+ * Add new ones with registerTripCategory().
+ */
+const categories = new Map<string, TripCategory>([
+  [flightCategory.id, flightCategory],
+  [railCategory.id, railCategory],
+  [ferryCategory.id, ferryCategory],
+  [busCategory.id, busCategory],
+  [hotelCategory.id, hotelCategory],
+  [carCategory.id, carCategory],
+  [activitiesCategory.id, activitiesCategory],
+  [insuranceCategory.id, insuranceCategory],
+]);
+
+export function registerTripCategory(category: TripCategory): void {
+  categories.set(category.id, category);
+}
+
+export function listTripCategories(): TripCategory[] {
+  return [...categories.values()];
+}
+
+export function getTripCategory(id: string): TripCategory | undefined {
+  return categories.get(id);
+}
+
+/**
+ * Whether the trip includes a category: TripDetails.components wins over
+ * the category's default
+ */
+export function isCategoryEnabled(category: TripCategory, tripDetails: TripDetails): boolean {
+  return tripDetails.components?.[category.id] ?? category.defaultEnabled;
+}
+
+/**
+ * Whether one leg of an itinerary includes a category. The leg's own
+ * components, then its needsHotel / needsCar flag, override the trip.
+ */
+export function isCategoryEnabledForLeg(category: TripCategory, tripDetails: TripDetails, leg: TripLeg): boolean {
+  return leg.components?.[category.id]
+    ?? (category.legField ? leg[category.legField] : undefined)
+    ?? isCategoryEnabled(category, tripDetails);
+}
+
+/**
+ * Every category the trip, or any leg of it, includes, in display order
+ */
+export function enabledCategories(tripDetails: TripDetails): TripCategory[] {
+  return listTripCategories().filter(category =>
+    isCategoryEnabled(category, tripDetails) || !!tripDetails.legs?.some(leg => isCategoryEnabledForLeg(category, tripDetails, leg)));
+}
+
+/**
+ * The trip's budget for a category, in its currency and budget basis.
+ * null when the trip sets none, so any price fits.
+ */
+export function categoryBudget(category: TripCategory, tripDetails: TripDetails): number | null {
+  const budget = category.budgetField ? tripDetails[category.budgetField] : tripDetails.budgets?.[category.id];
+  return typeof budget === 'number' && Number.isFinite(budget) ? budget : null;
+}
+
+export function toCategoryInfo(category: TripCategory, tripDetails: TripDetails): CategoryInfo {
+  const { id, label, icon, unit, scope, priceKey, nameKey } = category;
+  return { id, label, icon, unit, scope, priceKey, nameKey, budget: categoryBudget(category, tripDetails) };
+}
@@ -0,0 +1,20 @@
+import { createGenericCategory } from './generic';
+
+/**
+ * Travel insurance, bought once for the whole trip and priced per traveler
+ */
+export const insuranceCategory = createGenericCategory({
+  id: 'insurance',
+  label: 'Travel Insurance',
+  icon: '🛡️',
+  unit: 'traveler',
+  scope: 'trip',
+  defaultEnabled: false,
+  priceUnit: 'premium per traveler for the whole trip',
+  nameLabel: 'insurer and plan name',
+  typicalPrice: [30, 120],
+  examples: ['World Nomads Standard', 'Allianz OneTrip Basic', 'Travel Guard Essential', 'SafetyWing Nomad'],
+  domains: ['squaremouth.com', 'insuremytrip.com', 'worldnomads.com', 'allianztravelinsurance.com'],
+  describe: ({ origin, destination, startDate, endDate }) =>
+    `travel insurance plans for a trip from ${origin} to ${destination} from ${startDate} to ${endDate}`,
+});
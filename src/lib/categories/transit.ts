@@ -0,0 +1,50 @@
+import { createGenericCategory, describeJourney } from './generic';
+
+/**
+ * Ground and sea transport, priced per passenger like flights. Enable
+ * them per trip (or per leg) to get between stops without flying.
+ */
+export const railCategory = createGenericCategory({
+  id: 'rail',
+  label: 'Rail',
+  icon: '🚆',
+  unit: 'traveler',
+  scope: 'transport',
+  defaultEnabled: false,
+  priceUnit: 'fare per passenger, covering both directions for a round trip',
+  nameLabel: 'rail operator',
+  typicalPrice: [40, 220],
+  examples: ['Amtrak', 'Eurostar', 'Trenitalia', 'Deutsche Bahn', 'SNCF'],
+  domains: ['thetrainline.com', 'raileurope.com', 'amtrak.com', 'eurostar.com', 'omio.com', 'seat61.com'],
+  describe: request => describeJourney('train tickets', request),
+});
+
+export const ferryCategory = createGenericCategory({
+  id: 'ferry',
+  label: 'Ferry',
+  icon: '⛴️',
+  unit: 'traveler',
+  scope: 'transport',
+  defaultEnabled: false,
+  priceUnit: 'fare per passenger, covering both directions for a round trip',
+  nameLabel: 'ferry operator',
+  typicalPrice: [25, 160],
+  examples: ['DFDS', 'Brittany Ferries', 'Stena Line', 'Blue Star Ferries'],
+  domains: ['directferries.com', 'ferryhopper.com', 'aferry.com', 'omio.com'],
+  describe: request => describeJourney('ferry tickets', request),
+});
+
+export const busCategory = createGenericCategory({
+  id: 'bus',
+  label: 'Intercity Bus',
+  icon: '🚌',
+  unit: 'traveler',
+  scope: 'transport',
+  defaultEnabled: false,
+  priceUnit: 'fare per passenger, covering both directions for a round trip',
+  nameLabel: 'bus company',
+  typicalPrice: [15, 90],
+  examples: ['FlixBus', 'Greyhound', 'Megabus', 'ALSA'],
+  domains: ['flixbus.com', 'greyhound.com', 'megabus.com', 'busbud.com', 'omio.com'],
+  describe: request => describeJourney('intercity bus tickets', request),
+});
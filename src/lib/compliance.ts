@@ -0,0 +1,244 @@
+import type {
+  TripCategory,
+  TripDetails,
+  OfferBase,
+  FlightOffer,
+  HotelOffer,
+  CarOffer,
+  FlightPreferences,
+  HotelPreferences,
+  CarRentalPreferences,
+  ConstraintCheck,
+  ComplianceStatus,
+  PreferenceCompliance,
+} from '../types/travel';
+import { rankOffers, MAX_OFFERS_PER_CATEGORY } from './offers';
+
+const STATUS_SCORES: Record<ComplianceStatus, number> = { met: 1, unknown: 0.5, violated: 0 };
+
+/**
+ * Status of a preference the offer may or may not state
+ */
+function statusOf(known: boolean, met: boolean): ComplianceStatus {
+  if (!known) return 'unknown';
+  return met ? 'met' : 'violated';
+}
+
+function check(constraint: string, expected: string, actual: string | undefined, met: boolean): ConstraintCheck {
+  return { constraint, expected, actual, status: statusOf(actual !== undefined, met) };
+}
+
+/**
+ * Check that every listed feature is offered, one constraint per feature
+ */
+function checkFeatures(field: string, wanted: string[] | undefined, offered: string[] | undefined): ConstraintCheck[] {
+  return (wanted || []).map(feature => check(
+    `${field}.${feature}`,
+    feature,
+    offered ? (offered.includes(feature) ? feature : `no ${feature}`) : undefined,
+    !!offered?.includes(feature)
+  ));
+}
+
+/**
+ * Hour of day (0-23) of an 'HH:MM' time
+ */
+function hourOf(time: string): number {
+  return parseInt(time.split(':')[0], 10);
+}
+
+const TIME_OF_DAY_HOURS: Record<string, (hour: number) => boolean> = {
+  morning: hour => hour >= 5 && hour < 12,
+  afternoon: hour => hour >= 12 && hour < 17,
+  evening: hour => hour >= 17 && hour < 22,
+  'red-eye': hour => hour >= 22 || hour < 5,
+};
+
+const MAX_STOPS: Record<string, number> = { direct: 0, 'one-stop': 1 };
+
+export function checkFlightPreferences(offer: FlightOffer, prefs: FlightPreferences = {}): ConstraintCheck[] {
+  const checks: ConstraintCheck[] = [];
+
+  const maxStops = prefs.stops ? MAX_STOPS[prefs.stops] : undefined;
+  if (maxStops !== undefined) {
+    const stops = offer.stops;
+    checks.push(check('stops', maxStops === 0 ? 'nonstop' : `at most ${maxStops} stop`,
+      stops === undefined ? undefined : stops === 0 ? 'nonstop' : `${stops} stop${stops > 1 ? 's' : ''}`,
+      stops !== undefined && stops <= maxStops));
+  }
+
+  if (prefs.preferredAirlines && prefs.preferredAirlines.length > 0) {
+    const preferred = prefs.preferredAirlines.map(airline => airline.toLowerCase());
+    const carriers = offer.carrier.startsWith('Unknown') ? [] : offer.carrier.split(' / ');
+    checks.push(check('preferredAirlines', prefs.preferredAirlines.join(' or '), carriers.length > 0 ? offer.carrier : undefined,
+      carriers.every(carrier => preferred.some(airline => carrier.toLowerCase().includes(airline)))));
+  }
+
+  if (prefs.timeOfDay && prefs.timeOfDay !== 'any') {
+    const inWindow = TIME_OF_DAY_HOURS[prefs.timeOfDay];
+    checks.push(check('timeOfDay', `${prefs.timeOfDay} departure`, offer.departureTime,
+      !!offer.departureTime && inWindow(hourOf(offer.departureTime))));
+  }
+
+  if (prefs.baggageCount) {
+    const bags = offer.checkedBags;
+    checks.push(check('baggageCount', `${prefs.baggageCount} checked bag${prefs.baggageCount > 1 ? 's' : ''}`,
+      bags === undefined ? undefined : `${bags} included`, bags !== undefined && bags >= prefs.baggageCount));
+  }
+
+  if (prefs.extraLegroom) {
+    checks.push(check('extraLegroom', 'extra legroom',
+      offer.extraLegroom === undefined ? undefined : offer.extraLegroom ? 'extra legroom' : 'standard seat', !!offer.extraLegroom));
+  }
+
+  if (prefs.seatPreference && prefs.seatPreference !== 'any') {
+    checks.push(check('seatPreference', `${prefs.seatPreference} seat`, offer.seat && `${offer.seat} seat`, offer.seat === prefs.seatPreference));
+  }
+
+  return checks;
+}
+
+/**
+ * Cancellation policies from most to least flexible: a preference is met
+ * by its own policy or a more flexible one
+ */
+const CANCELLATION_FLEXIBILITY = ['flexible', 'moderate', 'strict'];
+
+export function checkHotelPreferences(offer: HotelOffer, prefs: HotelPreferences = {}): ConstraintCheck[] {
+  const checks: ConstraintCheck[] = [];
+
+  if (prefs.starRating) {
+    checks.push(check('starRating', `${prefs.starRating}+ stars`, offer.starRating === undefined ? undefined : `${offer.starRating} stars`,
+      offer.starRating !== undefined && offer.starRating >= prefs.starRating));
+  }
+
+  if (prefs.roomType && prefs.roomType !== 'any') {
+    checks.push(check('roomType', `${prefs.roomType} room`, offer.roomType && `${offer.roomType} room`, offer.roomType === prefs.roomType));
+  }
+
+  checks.push(...checkFeatures('amenities', prefs.amenities, offer.amenities));
+
+  if (prefs.cancellationPolicy && prefs.cancellationPolicy !== 'any') {
+    const wanted = CANCELLATION_FLEXIBILITY.indexOf(prefs.cancellationPolicy);
+    const offered = offer.cancellationPolicy ? CANCELLATION_FLEXIBILITY.indexOf(offer.cancellationPolicy) : -1;
+    checks.push(check('cancellationPolicy', `${prefs.cancellationPolicy} cancellation`,
+      offer.cancellationPolicy && `${offer.cancellationPolicy} cancellation`, offered !== -1 && offered <= wanted));
+  }
+
+  return checks;
+}
+
+/**
+ * Words in a car type that identify each vehicle class
+ */
+const VEHICLE_CLASS_WORDS: Record<string, RegExp> = {
+  economy: /\beconomy\b|\bmini\b/i,
+  compact: /\bcompact\b/i,
+  midsize: /\bmid-?size\b|\bintermediate\b|\bstandard\b/i,
+  fullsize: /\bfull-?size\b/i,
+  suv: /\bsuv\b|\b4x4\b/i,
+  luxury: /\bluxury\b|\bpremium\b/i,
+};
+
+/**
+ * The vehicle class a car type names, if it names one
+ */
+export function vehicleClassOf(type: string): string | undefined {
+  return Object.keys(VEHICLE_CLASS_WORDS).find(vehicleClass => VEHICLE_CLASS_WORDS[vehicleClass].test(type));
+}
+
+export function checkCarPreferences(offer: CarOffer, prefs: CarRentalPreferences = {}): ConstraintCheck[] {
+  const checks: ConstraintCheck[] = [];
+
+  if (prefs.vehicleType && prefs.vehicleType !== 'any') {
+    const vehicleClass = vehicleClassOf(offer.type);
+    checks.push(check('vehicleType', prefs.vehicleType, vehicleClass, vehicleClass === prefs.vehicleType));
+  }
+
+  if (prefs.transmission && prefs.transmission !== 'any') {
+    checks.push(check('transmission', `${prefs.transmission} transmission`,
+      offer.transmission && `${offer.transmission} transmission`, offer.transmission === prefs.transmission));
+  }
+
+  if (prefs.mileage) {
+    // Unlimited mileage also satisfies a 'limited' preference
+    checks.push(check('mileage', `${prefs.mileage} mileage`, offer.mileage && `${offer.mileage} mileage`,
+      offer.mileage === 'unlimited' || offer.mileage === prefs.mileage));
+  }
+
+  checks.push(...checkFeatures('features', prefs.features, offer.features));
+
+  return checks;
+}
+
+/**
+ * Score a list of checks. undefined when there was nothing to check.
+ */
+export function assessCompliance(checks: ConstraintCheck[]): PreferenceCompliance | undefined {
+  if (checks.length === 0) return undefined;
+
+  const score = checks.reduce((sum, c) => sum + STATUS_SCORES[c.status], 0) / checks.length;
+  return {
+    score: Math.round(score * 100) / 100,
+    violated: checks.filter(c => c.status === 'violated').map(c => c.constraint),
+    unknown: checks.filter(c => c.status === 'unknown').map(c => c.constraint),
+    checks,
+  };
+}
+
+/**
+ * Compliance of an offer combined from others (a multi-city chain, a
+ * summary of every stay): a constraint is violated if any part violates
+ * it, and the score is the lowest of the parts
+ */
+export function combineCompliance(parts: Array<PreferenceCompliance | undefined>): PreferenceCompliance | undefined {
+  const known = parts.filter((part): part is PreferenceCompliance => !!part);
+  if (known.length === 0) return undefined;
+
+  const violated = [...new Set(known.flatMap(part => part.violated))];
+  const unknown = [...new Set(known.flatMap(part => part.unknown))].filter(id => !violated.includes(id));
+  return {
+    score: Math.min(...known.map(part => part.score)),
+    violated,
+    unknown,
+    checks: known.flatMap(part => part.checks),
+  };
+}
+
+/**
+ * Check every offer of a category against the trip's preferences, then
+ * filter and rank them as TripDetails.preferenceMatching asks. Offers are
+ * ranked cheapest first when the category has no preferences to check.
+ * With 'filter' the result may be empty.
+ */
+export function applyPreferences<T extends OfferBase>(category: TripCategory<T>, offers: T[], tripDetails: TripDetails): T[] {
+  const price = (offer: T) => (offer as any)[category.priceKey] as number;
+  const matching = tripDetails.preferenceMatching || 'rank';
+
+  const checked = offers.map(offer => {
+    const compliance = category.checkPreferences
+      ? assessCompliance(category.checkPreferences(offer, tripDetails))
+      : undefined;
+    return compliance ? { ...offer, compliance } : offer;
+  });
+
+  if (matching === 'report' || checked.every(offer => !offer.compliance)) {
+    return rankOffers(checked, price);
+  }
+
+  const eligible = matching === 'filter'
+    ? checked.filter(offer => !offer.compliance || offer.compliance.violated.length === 0)
+    : checked;
+  if (eligible.length < checked.length) {
+    console.log(`🚫 ${checked.length - eligible.length} ${category.label.toLowerCase()} offers dropped for violating preferences`);
+  }
+
+  if (matching === 'filter') {
+    return rankOffers(eligible, price);
+  }
+
+  const score = (offer: T) => offer.compliance?.score ?? 1;
+  return [...eligible]
+    .sort((a, b) => score(b) - score(a) || price(a) - price(b))
+    .slice(0, MAX_OFFERS_PER_CATEGORY);
+}
@@ -0,0 +1,94 @@
+import type { PriceProvenance, OfferBase } from '../types/travel';
+import { joinDistinct } from './offers';
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+/**
+ * Prices scoring below this are treated as guesses: they never make a
+ * price check report a deal
+ */
+export const LOW_CONFIDENCE_THRESHOLD = 0.5;
+
+const HIGH_CONFIDENCE_THRESHOLD = 0.75;
+
+/**
+ * Confidence of prices that were not read from a live search result
+ */
+export const RECORDED_CONFIDENCE = 0.8;
+export const SIMULATED_CONFIDENCE = 0.1;
+
+export function confidenceLevel(confidence: number): ConfidenceLevel {
+  if (confidence >= HIGH_CONFIDENCE_THRESHOLD) return 'high';
+  if (confidence >= LOW_CONFIDENCE_THRESHOLD) return 'medium';
+  return 'low';
+}
+
+export function isLowConfidence(confidence: number): boolean {
+  return confidence < LOW_CONFIDENCE_THRESHOLD;
+}
+
+/**
+ * Find where a price is written in a search result: the text the model
+ * quoted, or else the amount in any common format ('1234', '1,234', '1.234,50').
+ * Returns [start, end) offsets, or undefined when the price is not there.
+ */
+export function locatePrice(text: string, quoted: unknown, amount: number): [number, number] | undefined {
+  const candidates: string[] = [];
+  if (typeof quoted === 'string' && quoted.trim()) {
+    candidates.push(quoted.trim());
+  }
+
+  const whole = Math.trunc(amount);
+  const cents = Math.round((amount - whole) * 100);
+  const grouped = (separator: string) => String(whole).replace(/\B(?=(\d{3})+(?!\d))/g, separator);
+  for (const separator of ['', ',', '.', ' ', ' ']) {
+    const integer = grouped(separator);
+    if (cents > 0) {
+      const decimals = String(cents).padStart(2, '0');
+      candidates.push(`${integer}.${decimals}`, `${integer},${decimals}`);
+    } else {
+      candidates.push(integer);
+    }
+  }
+
+  for (const candidate of candidates) {
+    // Not part of a longer number: '512' should not match inside '1512'
+    const pattern = new RegExp(`(?<![\\d.,])${candidate.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\d]|[.,]\\d)`);
+    const match = pattern.exec(text);
+    if (match) {
+      return [match.index, match.index + candidate.length];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Score a price read from a search result. The price being written in the
+ * result counts most; a result URL, an offer name and quoted dates add to it.
+ */
+export function scoreExtractedPrice(evidence: {
+  span?: [number, number];
+  resultUrl?: string;
+  label?: string | null;
+  dated?: boolean;
+}): number {
+  let score = 0.3;
+  if (evidence.span) score += 0.4;
+  if (evidence.resultUrl) score += 0.15;
+  if (evidence.label) score += 0.1;
+  if (evidence.dated) score += 0.05;
+  return Math.round(Math.min(1, score) * 100) / 100;
+}
+
+/**
+ * Provenance and confidence of an offer combined from others: as trustworthy
+ * as its least trustworthy part
+ */
+export function derivedProvenance(parts: Array<Pick<OfferBase, 'provenance' | 'confidence'>>): Pick<OfferBase, 'provenance' | 'confidence'> {
+  const provenance: PriceProvenance = {
+    provider: joinDistinct(parts.map(part => part.provenance.provider)),
+    method: 'derived',
+    retrievedAt: parts.map(part => part.provenance.retrievedAt).sort()[0] || new Date().toISOString(),
+  };
+  return { provenance, confidence: Math.min(...parts.map(part => part.confidence)) };
+}
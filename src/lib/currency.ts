@@ -0,0 +1,189 @@
+import { readFile } from 'fs/promises';
+
+/**
+ * Exchange rates expressed as units of each currency per 1 USD
+ */
+export interface ExchangeRates {
+  base: 'USD';
+  updatedAt: string;
+  rates: Record<string, number>;
+}
+
+export interface ParsedPrice {
+  amount: number;
+  currency: string | null;
+}
+
+export const DEFAULT_CURRENCY = 'USD';
+
+/**
+ * Built-in rates, used when no local rate file is available.
+ * Update data/exchange-rates.json (or the file named by EXCHANGE_RATES_PATH) to refresh them.
+ */
+const DEFAULT_RATES: ExchangeRates = {
+  base: 'USD',
+  updatedAt: '2025-01-01',
+  rates: {
+    USD: 1,
+    EUR: 0.92,
+    GBP: 0.79,
+    JPY: 150,
+    INR: 83,
+    CNY: 7.2,
+    CAD: 1.36,
+    AUD: 1.52,
+    CHF: 0.88,
+    SGD: 1.34,
+    HKD: 7.8,
+    THB: 35.5,
+    KRW: 1330,
+  },
+};
+
+const DEFAULT_RATES_PATH = 'data/exchange-rates.json';
+
+/**
+ * Currency symbols recognised in price text. '$' is read as USD
+ * unless a more specific prefix (C$, A$, S$, HK$) is present.
+ */
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  'US$': 'USD',
+  'C$': 'CAD',
+  'A$': 'AUD',
+  'S$': 'SGD',
+  'HK$': 'HKD',
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '円': 'JPY',
+  '₹': 'INR',
+  'Rs.': 'INR',
+  'Rs': 'INR',
+  '฿': 'THB',
+  '₩': 'KRW',
+};
+
+/**
+ * Currencies that are not quoted with minor units
+ */
+const ZERO_DECIMAL_CURRENCIES = new Set(['JPY', 'KRW']);
+
+let cachedRates: { path: string; rates: ExchangeRates } | null = null;
+
+/**
+ * Load the local rate table, falling back to the built-in rates
+ */
+export async function loadExchangeRates(): Promise<ExchangeRates> {
+  const path = process.env.EXCHANGE_RATES_PATH || import.meta.env.EXCHANGE_RATES_PATH || DEFAULT_RATES_PATH;
+
+  if (cachedRates?.path === path) {
+    return cachedRates.rates;
+  }
+
+  let rates = DEFAULT_RATES;
+  try {
+    const file = JSON.parse(await readFile(path, 'utf-8')) as ExchangeRates;
+    rates = { ...file, rates: { ...DEFAULT_RATES.rates, ...file.rates } };
+    console.log(`💱 Loaded exchange rates from ${path} (updated ${rates.updatedAt})`);
+  } catch {
+    console.warn(`⚠️ No exchange rate file at ${path}, using built-in rates`);
+  }
+
+  cachedRates = { path, rates };
+  return rates;
+}
+
+export function isSupportedCurrency(code: string, rates: ExchangeRates): boolean {
+  return code in rates.rates;
+}
+
+/**
+ * Round an amount to the precision its currency is quoted in
+ */
+export function roundForCurrency(amount: number, currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.has(currency) ? Math.round(amount) : Math.round(amount * 100) / 100;
+}
+
+/**
+ * Convert an amount between two currencies. Returns null when either rate is unknown.
+ */
+export function convertAmount(amount: number, from: string, to: string, rates: ExchangeRates): number | null {
+  if (from === to) return amount;
+
+  const fromRate = rates.rates[from];
+  const toRate = rates.rates[to];
+  if (!fromRate || !toRate) return null;
+
+  return roundForCurrency((amount / fromRate) * toRate, to);
+}
+
+/**
+ * Parse a number written with either '.' or ',' as the decimal mark,
+ * e.g. '1,234.50', '1.234,50', '1 234,50', "1'234.50" or '12.000'
+ */
+export function parseLocaleNumber(text: string): number | null {
+  const cleaned = text.replace(/[\s\u00a0\u202f']/g, '');
+  if (!/^\d[\d.,]*$/.test(cleaned)) return null;
+
+  const lastDot = cleaned.lastIndexOf('.');
+  const lastComma = cleaned.lastIndexOf(',');
+  let normalised: string;
+
+  if (lastDot !== -1 && lastComma !== -1) {
+    // Both present: whichever comes last is the decimal mark
+    const decimal = lastDot > lastComma ? '.' : ',';
+    const group = decimal === '.' ? ',' : '.';
+    normalised = cleaned.split(group).join('').replace(decimal, '.');
+  } else if (lastDot !== -1 || lastComma !== -1) {
+    const separator = lastDot !== -1 ? '.' : ',';
+    const parts = cleaned.split(separator);
+    // Repeated, or followed by exactly three digits: a thousands separator
+    const isGrouping = parts.length > 2 || parts[parts.length - 1].length === 3;
+    normalised = isGrouping ? parts.join('') : parts.join('.');
+  } else {
+    normalised = cleaned;
+  }
+
+  const value = parseFloat(normalised);
+  return Number.isFinite(value) ? value : null;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const SYMBOL_PATTERN = [...Object.keys(CURRENCY_SYMBOLS), ...Object.keys(DEFAULT_RATES.rates)]
+  .sort((a, b) => b.length - a.length)
+  .map(escapeRegExp)
+  .join('|');
+const NUMBER_PATTERN = "\\d{1,3}(?:[.,'\\s\\u00a0\\u202f]\\d{3})+(?:[.,]\\d{1,2})?|\\d+(?:[.,]\\d{1,2})?";
+const PREFIX_PRICE = new RegExp(`(${SYMBOL_PATTERN})\\s?(${NUMBER_PATTERN})`);
+const SUFFIX_PRICE = new RegExp(`(${NUMBER_PATTERN})\\s?(${SYMBOL_PATTERN})`);
+
+function currencyFromToken(token: string): string {
+  return CURRENCY_SYMBOLS[token] || token;
+}
+
+/**
+ * Parse the first price in a piece of text, e.g. '€1.234,50', '£89', '¥12,000',
+ * '₹4,500', 'EUR 120' or '99.90 CHF'. A bare number is returned with a null currency.
+ */
+export function parsePrice(text: string): ParsedPrice | null {
+  const trimmed = text.trim();
+
+  const prefix = trimmed.match(PREFIX_PRICE);
+  if (prefix) {
+    const amount = parseLocaleNumber(prefix[2]);
+    if (amount !== null) return { amount, currency: currencyFromToken(prefix[1]) };
+  }
+
+  const suffix = trimmed.match(SUFFIX_PRICE);
+  if (suffix) {
+    const amount = parseLocaleNumber(suffix[1]);
+    if (amount !== null) return { amount, currency: currencyFromToken(suffix[2]) };
+  }
+
+  const amount = parseLocaleNumber(trimmed);
+  return amount !== null ? { amount, currency: null } : null;
+}
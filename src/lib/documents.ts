@@ -0,0 +1,18 @@
+/**
+ * Documents from the upload page share the SmartBucket with accounts, trips
+ * and price history. Their keys always start with the uploader's prefix, so
+ * an upload can't overwrite any other record and a search only returns the
+ * searcher's own documents.
+ */
+const DOCUMENT_PREFIX = 'doc-';
+
+export function documentPrefix(userId: string): string {
+  return `${DOCUMENT_PREFIX}${userId}-`;
+}
+
+/**
+ * SmartBucket key of a user's document, from the name it was uploaded with
+ */
+export function documentKey(userId: string, name: string): string {
+  return `${documentPrefix(userId)}${name}`;
+}
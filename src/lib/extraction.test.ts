@@ -0,0 +1,193 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createStubModelClient,
+  extractStructuredOffers,
+  setExtractionModelClient,
+  validateExtractedOffer,
+  type SearchSnippet,
+} from './extraction';
+import { parsePrice } from './currency';
+
+const snippets: SearchSnippet[] = [
+  { url: 'https://air.example/paris', text: 'Air France NYC to Paris from €1.234,50 round trip, departs 2025-06-01' },
+  { url: 'https://hotels.example/paris', text: 'Hotel Lumière, Paris: rooms from $180 a night' },
+  { url: 'https://blog.example/tips', text: 'Ten tips for cheap travel to Paris' },
+];
+
+const validOffer = { resultIndex: 0, price: 420, currency: 'USD', vendor: 'Example Air' };
+
+function stubResponse(response: unknown) {
+  setExtractionModelClient(createStubModelClient(() => typeof response === 'string' ? response : JSON.stringify(response)));
+}
+
+afterEach(() => {
+  setExtractionModelClient(null);
+  vi.restoreAllMocks();
+});
+
+describe('parsePrice', () => {
+  it.each([
+    ['€1.234,50', 1234.5, 'EUR'],
+    ['$1,234.50', 1234.5, 'USD'],
+    ['1 234,50 €', 1234.5, 'EUR'],
+    ['£89', 89, 'GBP'],
+    ['¥12,000', 12000, 'JPY'],
+    ['₹4,500', 4500, 'INR'],
+    ['EUR 120', 120, 'EUR'],
+    ['99.90 CHF', 99.9, 'CHF'],
+  ])('reads %s', (text, amount, currency) => {
+    expect(parsePrice(text)).toEqual({ amount, currency });
+  });
+
+  it('returns a bare number without a currency', () => {
+    expect(parsePrice('12.000')).toEqual({ amount: 12000, currency: null });
+  });
+
+  it('returns null for text without a price', () => {
+    expect(parsePrice('call for prices')).toBeNull();
+  });
+});
+
+describe('validateExtractedOffer', () => {
+  it('accepts a valid offer', () => {
+    expect(validateExtractedOffer({ ...validOffer, label: ' Economy ', startDate: '2025-06-01' }, 1)).toMatchObject({
+      resultIndex: 0,
+      price: 420,
+      currency: 'USD',
+      vendor: 'Example Air',
+      label: 'Economy',
+      startDate: '2025-06-01',
+    });
+  });
+
+  it.each([
+    [{ ...validOffer, resultIndex: 3 }, 'resultIndex must reference a search result'],
+    [{ ...validOffer, price: -5 }, 'price must be a positive number'],
+    [{ ...validOffer, price: 'free' }, 'price must be a positive number'],
+    [{ ...validOffer, currency: 'dollars' }, 'currency must be an ISO 4217 code'],
+    [{ ...validOffer, vendor: '   ' }, 'vendor is required'],
+    [{ ...validOffer, vendor: '<img src=x onerror=alert(1)>' }, 'vendor is required'],
+    [{ ...validOffer, label: 42 }, 'label must be a string or null'],
+    [{ ...validOffer, startDate: '01/06/2025' }, 'startDate must be YYYY-MM-DD'],
+    [{ ...validOffer, url: 'javascript:alert(1)' }, 'url must be http(s)'],
+    [{ ...validOffer, url: 'not a url' }, 'url is not a valid URL'],
+  ])('rejects %j', (raw, problem) => {
+    expect(validateExtractedOffer(raw, 1)).toContain(problem);
+  });
+
+  it('rejects values that are not objects', () => {
+    expect(validateExtractedOffer('420 USD', 1)).toEqual(['offer is not an object']);
+  });
+
+  it('stores the normalized URL', () => {
+    const offer = validateExtractedOffer({ ...validOffer, url: 'https://air.example/book?to=Paris "x"' }, 1);
+    expect(offer).toMatchObject({ url: 'https://air.example/book?to=Paris%20%22x%22' });
+  });
+
+  it('strips markup and control characters from names and caps their length', () => {
+    const offer = validateExtractedOffer({ ...validOffer, vendor: '<b>Example\u0007 Air</b>', label: 'x'.repeat(500) }, 1);
+    expect(offer).toMatchObject({ vendor: 'Example Air' });
+    expect((offer as { label: string }).label).toHaveLength(120);
+  });
+
+  it('reads prices quoted as text', () => {
+    expect(validateExtractedOffer({ ...validOffer, price: '€1.234,50', currency: undefined }, 1)).toMatchObject({
+      price: 1234.5,
+      currency: 'EUR',
+      priceText: '€1.234,50',
+    });
+  });
+});
+
+describe('extractStructuredOffers', () => {
+  it('returns validated offers scored against their results', async () => {
+    stubResponse([
+      { resultIndex: 0, price: '€1.234,50', vendor: 'Air France', label: 'Air France', startDate: '2025-06-01', url: 'https://air.example/book' },
+      { resultIndex: 1, price: 180, currency: 'USD', vendor: 'Hotel Lumière', label: null },
+    ]);
+
+    const { offers, unparsed } = await extractStructuredOffers('flights', snippets, 'perplexity');
+
+    expect(offers).toHaveLength(2);
+    expect(offers[0]).toMatchObject({ price: 1234.5, currency: 'EUR', span: [snippets[0].text.indexOf('€'), expect.any(Number)] });
+    expect(offers[0].confidence).toBe(1);
+    expect(offers[1]).toMatchObject({ price: 180, currency: 'USD' });
+    expect(unparsed).toEqual([
+      { source: 'perplexity', url: snippets[2].url, snippet: snippets[2].text, reason: 'no offer found in result' },
+    ]);
+  });
+
+  it('scores a price the result does not contain as a guess', async () => {
+    stubResponse([{ resultIndex: 2, price: 99, currency: 'USD', vendor: 'Blog' }]);
+
+    const { offers } = await extractStructuredOffers('flights', snippets, 'perplexity');
+
+    expect(offers[0].span).toBeUndefined();
+    expect(offers[0].confidence).toBeLessThan(0.5);
+  });
+
+  it('reports rejected offers as unparsed with the reasons', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    stubResponse([
+      { resultIndex: 0, price: -1, currency: 'EUR', vendor: 'Air France' },
+      { resultIndex: 1, price: 180, currency: 'usd', vendor: '' },
+    ]);
+
+    const { offers, unparsed } = await extractStructuredOffers('hotels', snippets, 'perplexity');
+
+    expect(offers).toEqual([]);
+    expect(unparsed.map(result => result.reason)).toEqual([
+      'price must be a positive number',
+      'currency must be an ISO 4217 code; vendor is required',
+      'no offer found in result',
+    ]);
+  });
+
+  it('reads the JSON array out of surrounding prose', async () => {
+    stubResponse(`Here are the offers:\n${JSON.stringify([validOffer])}\nLet me know if you need more.`);
+
+    const { offers } = await extractStructuredOffers('flights', snippets, 'perplexity');
+
+    expect(offers.map(offer => offer.vendor)).toEqual(['Example Air']);
+  });
+
+  it('leaves every result unparsed when the response has no JSON array', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    stubResponse('Sorry, I could not find any prices.');
+
+    const { offers, unparsed } = await extractStructuredOffers('flights', snippets, 'perplexity');
+
+    expect(offers).toEqual([]);
+    expect(unparsed).toHaveLength(3);
+    expect(new Set(unparsed.map(result => result.reason))).toEqual(new Set(['model response was not a JSON array']));
+  });
+
+  it('leaves every result unparsed when the model call fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    setExtractionModelClient(createStubModelClient(() => Promise.reject(new Error('overloaded'))));
+
+    const { offers, unparsed } = await extractStructuredOffers('flights', snippets, 'perplexity');
+
+    expect(offers).toEqual([]);
+    expect(new Set(unparsed.map(result => result.reason))).toEqual(new Set(['extraction model call failed']));
+  });
+
+  it('asks for the hinted label and price unit for other categories', async () => {
+    const respond = vi.fn((_prompt: string) => '[]');
+    setExtractionModelClient(createStubModelClient(respond));
+
+    await extractStructuredOffers('rail', snippets, 'perplexity', { label: 'rail operator', priceUnit: 'fare per passenger' });
+
+    expect(respond).toHaveBeenCalledOnce();
+    expect(respond.mock.calls[0][0]).toContain('<rail operator>');
+    expect(respond.mock.calls[0][0]).toContain('fare per passenger');
+  });
+
+  it('does not call the model without results', async () => {
+    const respond = vi.fn((_prompt: string) => '[]');
+    setExtractionModelClient(createStubModelClient(respond));
+
+    expect(await extractStructuredOffers('flights', [], 'perplexity')).toEqual({ offers: [], unparsed: [] });
+    expect(respond).not.toHaveBeenCalled();
+  });
+});
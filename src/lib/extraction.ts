@@ -0,0 +1,366 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { PriceCategory, UnparsedResult } from '../types/travel';
+import { parsePrice } from './currency';
+import { locatePrice, scoreExtractedPrice } from './confidence';
+import { callSdk } from './resilience';
+
+/**
+ * Minimal model interface used by the extraction stage.
+ * The Anthropic client is the default; tests and offline runs can
+ * swap in a stub with setExtractionModelClient().
+ */
+export interface ModelClient {
+  complete(system: string, prompt: string): Promise<string>;
+}
+
+/**
+ * A single search result handed to the model
+ */
+export interface SearchSnippet {
+  url?: string;
+  text: string;
+}
+
+/**
+ * An offer as returned by the model, after schema validation
+ */
+export interface ExtractedOffer {
+  resultIndex: number;
+  price: number;
+  currency: string;
+  vendor: string;
+  label: string | null; // Airline, hotel name, car type or the category's own label
+  startDate?: string;
+  endDate?: string;
+  url?: string;
+  priceText?: string; // Price as the model quoted it, when given as text
+  details?: Record<string, OfferDetail>; // What the result states about the offer (stops, amenities, ...)
+}
+
+export type OfferDetail = string | number | boolean | string[];
+
+/**
+ * How far an extracted offer is backed by its search result
+ */
+export interface OfferEvidence {
+  span?: [number, number]; // Where the price is written in the result text, if it is
+  confidence: number;
+}
+
+/**
+ * How offers of a category are named and priced, for categories without
+ * built-in wording
+ */
+export interface ExtractionHints {
+  label: string; // e.g. 'rail operator'
+  priceUnit: string; // e.g. 'fare per passenger'
+}
+
+export interface ExtractionResult {
+  offers: Array<ExtractedOffer & OfferEvidence>;
+  unparsed: UnparsedResult[];
+}
+
+const DEFAULT_EXTRACTION_MODEL = 'claude-sonnet-4-5-20250929';
+
+const LABELS: Record<PriceCategory, string> = {
+  flights: 'airline name',
+  hotels: 'hotel name',
+  cars: 'car type (economy, compact, SUV, ...)',
+};
+
+/**
+ * Offer details asked for alongside the price, so offers can be checked
+ * against the trip's preferences
+ */
+const DETAILS: Record<PriceCategory, string> = {
+  flights: '"stops": <most stops in one direction>, "departureTime": "HH:MM", "checkedBags": <checked bags included per passenger>, "extraLegroom": true|false',
+  hotels: '"starRating": <1-5>, "roomType": "single"|"double"|"suite", "amenities": [any of "wifi", "breakfast", "gym", "pool", "parking"], "cancellationPolicy": "flexible"|"moderate"|"strict"',
+  cars: '"transmission": "automatic"|"manual", "mileage": "unlimited"|"limited", "features": [any of "gps", "bluetooth", "backup-camera", "usb", "carplay"]',
+};
+
+const PRICE_UNITS: Record<PriceCategory, string> = {
+  flights: 'total fare per passenger, covering both directions for a round trip',
+  hotels: 'price per room per night',
+  cars: 'price per day',
+};
+
+/**
+ * Model client backed by the Anthropic SDK (via Netlify AI Gateway, same as /api/agent)
+ */
+export function createAnthropicModelClient(): ModelClient | null {
+  const apiKey = process.env.ANTHROPIC_API_KEY || import.meta.env.ANTHROPIC_API_KEY;
+
+  if (!apiKey) {
+    return null;
+  }
+
+  const anthropic = new Anthropic({
+    apiKey,
+    baseURL: process.env.ANTHROPIC_BASE_URL || import.meta.env.ANTHROPIC_BASE_URL,
+  });
+  const model = process.env.EXTRACTION_MODEL || import.meta.env.EXTRACTION_MODEL || DEFAULT_EXTRACTION_MODEL;
+
+  return {
+    async complete(system, prompt) {
+      const response = await callSdk('anthropic', options => anthropic.messages.create({
+        model,
+        max_tokens: 1024,
+        system,
+        messages: [{ role: 'user', content: prompt }],
+      }, options));
+      return response.content[0]?.type === 'text' ? response.content[0].text : '';
+    },
+  };
+}
+
+/**
+ * Model client that answers every prompt from a local function.
+ * Lets the extraction stage run offline against recorded responses.
+ *
+ * @example
+ * setExtractionModelClient(createStubModelClient(() => '[{"resultIndex": 0, "price": 420, ...}]'));
+ */
+export function createStubModelClient(respond: (prompt: string) => string | Promise<string>): ModelClient {
+  return {
+    async complete(_system, prompt) {
+      return respond(prompt);
+    },
+  };
+}
+
+let modelClientOverride: ModelClient | null = null;
+
+/**
+ * Replace the model client used for extraction (pass null to restore the default)
+ */
+export function setExtractionModelClient(client: ModelClient | null): void {
+  modelClientOverride = client;
+}
+
+function getModelClient(): ModelClient | null {
+  return modelClientOverride || createAnthropicModelClient();
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+const MAX_NAME_LENGTH = 120;
+
+/**
+ * A vendor or label as plain text: markup and control characters are
+ * dropped, since search snippets are third-party text, and the rest is
+ * capped at MAX_NAME_LENGTH
+ */
+function plainName(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/[<>\u0000-\u001f\u007f-\u009f]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_NAME_LENGTH)
+    .trim();
+}
+
+/**
+ * Validate one model-produced offer against the extraction schema.
+ * Returns the offer, or the list of problems found.
+ */
+export function validateExtractedOffer(raw: any, resultCount: number): ExtractedOffer | string[] {
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== 'object') {
+    return ['offer is not an object'];
+  }
+  if (!Number.isInteger(raw.resultIndex) || raw.resultIndex < 0 || raw.resultIndex >= resultCount) {
+    errors.push('resultIndex must reference a search result');
+  }
+
+  // Prices may come back as text as written on the page, e.g. '€1.234,50'
+  let price = raw.price;
+  let currency = raw.currency;
+  if (typeof price === 'string') {
+    const parsed = parsePrice(price);
+    price = parsed?.amount;
+    currency = currency || parsed?.currency;
+  }
+
+  if (typeof price !== 'number' || !Number.isFinite(price) || price <= 0) {
+    errors.push('price must be a positive number');
+  }
+  if (typeof currency !== 'string' || !CURRENCY_CODE.test(currency)) {
+    errors.push('currency must be an ISO 4217 code');
+  }
+  const vendor = typeof raw.vendor === 'string' ? plainName(raw.vendor) : '';
+  if (!vendor) {
+    errors.push('vendor is required');
+  }
+  if (raw.label !== null && raw.label !== undefined && typeof raw.label !== 'string') {
+    errors.push('label must be a string or null');
+  }
+  for (const field of ['startDate', 'endDate']) {
+    if (raw[field] !== null && raw[field] !== undefined && (typeof raw[field] !== 'string' || !ISO_DATE.test(raw[field]))) {
+      errors.push(`${field} must be YYYY-MM-DD`);
+    }
+  }
+  // Stored as the URL serializes itself, so stray quotes and spaces come back escaped
+  let url: string | undefined;
+  if (raw.url !== null && raw.url !== undefined) {
+    try {
+      const parsed = new URL(raw.url);
+      if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+        errors.push('url must be http(s)');
+      }
+      url = parsed.href;
+    } catch {
+      errors.push('url is not a valid URL');
+    }
+  }
+
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  return {
+    resultIndex: raw.resultIndex,
+    price: Math.round(price * 100) / 100,
+    currency,
+    vendor,
+    label: raw.label ? plainName(raw.label) || null : null,
+    startDate: raw.startDate ?? undefined,
+    endDate: raw.endDate ?? undefined,
+    url,
+    priceText: typeof raw.price === 'string' ? raw.price : undefined,
+    details: readDetails(raw.details),
+  };
+}
+
+/**
+ * Keep the details with plain values. Details are optional, so malformed
+ * ones are dropped rather than rejecting the offer.
+ */
+function readDetails(raw: unknown): Record<string, OfferDetail> | undefined {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return undefined;
+
+  const details = Object.entries(raw).filter(([, value]) =>
+    ['string', 'number', 'boolean'].includes(typeof value) ||
+    (Array.isArray(value) && value.every(item => typeof item === 'string')));
+  return details.length > 0 ? Object.fromEntries(details) : undefined;
+}
+
+/**
+ * Check an offer against the result it was extracted from. A price the
+ * result does not actually contain is kept, but scored as a guess.
+ */
+function scoreOffer(offer: ExtractedOffer, snippet: SearchSnippet): ExtractedOffer & OfferEvidence {
+  const span = locatePrice(snippet.text, offer.priceText, offer.price);
+  const confidence = scoreExtractedPrice({
+    span,
+    resultUrl: snippet.url,
+    label: offer.label,
+    dated: !!offer.startDate,
+  });
+  return { ...offer, span, confidence };
+}
+
+/**
+ * Pull the first JSON array out of a model response
+ */
+function parseJsonArray(text: string): any[] | null {
+  const start = text.indexOf('[');
+  const end = text.lastIndexOf(']');
+  if (start === -1 || end <= start) return null;
+
+  try {
+    const parsed = JSON.parse(text.slice(start, end + 1));
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function buildPrompt(category: string, snippets: SearchSnippet[], hints: ExtractionHints): string {
+  const results = snippets
+    .map((s, i) => `[${i}] URL: ${s.url || 'none'}\n${s.text}`)
+    .join('\n\n');
+  const details = DETAILS[category as PriceCategory];
+
+  return `Extract ${category} offers from these search results.
+
+${results}
+
+Return ONLY a JSON array. For each offer that a result explicitly states, output:
+{"resultIndex": <number>, "price": <number, ${hints.priceUnit}, or the price text exactly as written>, "currency": "<ISO 4217 code of the quoted price>", "vendor": "<site or company selling it>", "label": "<${hints.label}> or null", "startDate": "YYYY-MM-DD" or null, "endDate": "YYYY-MM-DD" or null, "url": "<booking URL>" or null${details ? `, "details": {${details}}` : ''}}
+
+Never guess: if a result does not state a price, leave it out.${details ? ' Only include the details the result states.' : ''}`;
+}
+
+/**
+ * Turn raw search results into schema-validated offers using the model.
+ * Results the model skips, or whose offers fail validation, are reported
+ * as unparsed rather than filled in with made-up values. Categories other
+ * than flights, hotels and cars must pass hints.
+ */
+export async function extractStructuredOffers(
+  category: string,
+  snippets: SearchSnippet[],
+  source: string,
+  hints?: ExtractionHints
+): Promise<ExtractionResult> {
+  const unparsedFor = (indexes: number[], reason: string): UnparsedResult[] =>
+    indexes.map(i => ({ source, url: snippets[i].url, snippet: snippets[i].text.substring(0, 300), reason }));
+  const allIndexes = snippets.map((_, i) => i);
+
+  if (snippets.length === 0) {
+    return { offers: [], unparsed: [] };
+  }
+
+  const client = getModelClient();
+  if (!client) {
+    console.warn('⚠️ No extraction model configured (ANTHROPIC_API_KEY), results left unparsed');
+    return { offers: [], unparsed: unparsedFor(allIndexes, 'no extraction model configured') };
+  }
+
+  let response: string;
+  try {
+    response = await client.complete(
+      'You extract structured travel offers from web search snippets. You output strict JSON and never invent values.',
+      buildPrompt(category, snippets, hints || {
+        label: LABELS[category as PriceCategory] || 'offer name',
+        priceUnit: PRICE_UNITS[category as PriceCategory] || 'price as quoted',
+      })
+    );
+  } catch (error) {
+    console.error(`❌ Extraction model error for ${category}:`, error);
+    return { offers: [], unparsed: unparsedFor(allIndexes, 'extraction model call failed') };
+  }
+
+  const rawOffers = parseJsonArray(response);
+  if (!rawOffers) {
+    console.warn(`⚠️ Extraction model returned no JSON array for ${category}`);
+    return { offers: [], unparsed: unparsedFor(allIndexes, 'model response was not a JSON array') };
+  }
+
+  const offers: Array<ExtractedOffer & OfferEvidence> = [];
+  const rejected = new Map<number, string>();
+
+  for (const raw of rawOffers) {
+    const result = validateExtractedOffer(raw, snippets.length);
+    if (Array.isArray(result)) {
+      const index = Number.isInteger(raw?.resultIndex) ? raw.resultIndex : -1;
+      if (index >= 0 && index < snippets.length) {
+        rejected.set(index, result.join('; '));
+      }
+      console.warn(`⚠️ Rejected extracted ${category} offer:`, result.join('; '));
+      continue;
+    }
+    offers.push(scoreOffer(result, snippets[result.resultIndex]));
+  }
+
+  const parsedIndexes = new Set(offers.map(o => o.resultIndex));
+  const unparsed = allIndexes
+    .filter(i => !parsedIndexes.has(i))
+    .flatMap(i => unparsedFor([i], rejected.get(i) || 'no offer found in result'));
+
+  console.log(`🧠 Extracted ${offers.length} ${category} offers (${unparsed.length} results unparsed)`);
+  return { offers, unparsed };
+}
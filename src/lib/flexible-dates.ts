@@ -0,0 +1,140 @@
+import type { TripDetails, FlexibleDateCell, FlexibleDateGrid, SimulationSettings } from '../types/travel';
+import { checkAllPrices, daysBetween } from './pricing';
+import { DEFAULT_CURRENCY } from './currency';
+
+export interface FlexibleDateOptions {
+  days: number; // Shift dates up to this many days either way
+  fixedLength: boolean; // Keep the trip length, or try every return date too
+}
+
+/**
+ * Widest windows allowed. Every cell is a full price check, so a
+ * ±3 day window with varying lengths already means 49 checks.
+ */
+export const MAX_FLEXIBLE_DAYS = 7;
+export const MAX_FLEXIBLE_DAYS_VARYING_LENGTH = 3;
+
+/**
+ * How many date pairs are priced at once
+ */
+const CONCURRENT_CHECKS = 3;
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+}
+
+/**
+ * Move a trip's dates. Multi-city legs all move with the departure date;
+ * only single-destination trips can change length. The last leg ends with
+ * the trip, so a one-leg itinerary keeps matching the trip's dates.
+ */
+function shiftTrip(tripDetails: TripDetails, startOffset: number, endOffset: number): TripDetails {
+  const lastLeg = (tripDetails.legs?.length || 0) - 1;
+  return {
+    ...tripDetails,
+    startDate: shiftDate(tripDetails.startDate, startOffset),
+    endDate: shiftDate(tripDetails.endDate, endOffset),
+    legs: tripDetails.legs?.map((leg, index) => ({
+      ...leg,
+      startDate: shiftDate(leg.startDate, startOffset),
+      endDate: shiftDate(leg.endDate, index === lastLeg ? endOffset : startOffset),
+    })),
+  };
+}
+
+/**
+ * Run tasks with at most `limit` in flight, keeping results in order
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Check the options against the trip. Returns an error message, or null when valid.
+ */
+export function validateFlexibleDateOptions(tripDetails: TripDetails, options: FlexibleDateOptions): string | null {
+  if (!Number.isInteger(options.days) || options.days < 1 || options.days > MAX_FLEXIBLE_DAYS) {
+    return `days must be a whole number from 1 to ${MAX_FLEXIBLE_DAYS}`;
+  }
+  if (!options.fixedLength && options.days > MAX_FLEXIBLE_DAYS_VARYING_LENGTH) {
+    return `days can be at most ${MAX_FLEXIBLE_DAYS_VARYING_LENGTH} when the trip length varies`;
+  }
+  if (!options.fixedLength && tripDetails.legs && tripDetails.legs.length > 1) {
+    return 'multi-city trips can only be shifted with a fixed length';
+  }
+  return null;
+}
+
+/**
+ * Price every candidate date pair within the window around the trip's
+ * dates and return the total costs as a grid. Departure dates in the
+ * past, and return dates before departure, are left out.
+ */
+export async function searchFlexibleDates(
+  tripDetails: TripDetails,
+  options: FlexibleDateOptions,
+  simulation: SimulationSettings
+): Promise<FlexibleDateGrid> {
+  const today = new Date().toISOString().split('T')[0];
+  const offsets = Array.from({ length: options.days * 2 + 1 }, (_, i) => i - options.days);
+
+  const pairs = offsets.flatMap(startOffset =>
+    (options.fixedLength ? [startOffset] : offsets).map(endOffset => shiftTrip(tripDetails, startOffset, endOffset))
+  ).filter(trip => trip.startDate >= today && trip.endDate >= trip.startDate);
+
+  console.log(`📅 Flexible-date search: ${pairs.length} date pairs (±${options.days} days, ${options.fixedLength ? 'fixed' : 'varying'} length)`);
+
+  const cells = await mapWithConcurrency(pairs, CONCURRENT_CHECKS, async (trip): Promise<FlexibleDateCell> => {
+    const base = { startDate: trip.startDate, endDate: trip.endDate, nights: daysBetween(trip.startDate, trip.endDate) };
+    try {
+      const priceCheck = await checkAllPrices(trip, simulation);
+      return {
+        ...base,
+        totalCost: priceCheck.totalCost,
+        costPerPerson: priceCheck.costs.costPerPerson,
+        withinBudget: priceCheck.withinTotalBudget,
+        simulated: priceCheck.simulated,
+      };
+    } catch (error) {
+      console.error(`❌ Flexible-date check failed for ${trip.startDate} → ${trip.endDate}:`, error);
+      return {
+        ...base,
+        totalCost: null,
+        costPerPerson: null,
+        withinBudget: false,
+        simulated: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  const priced = cells.filter(cell => cell.totalCost !== null);
+  const cheapest = priced.reduce<FlexibleDateCell | null>(
+    (best, cell) => (!best || (cell.totalCost as number) < (best.totalCost as number) ? cell : best),
+    null
+  );
+
+  return {
+    days: options.days,
+    fixedLength: options.fixedLength,
+    departureDates: [...new Set(cells.map(cell => cell.startDate))].sort(),
+    returnDates: [...new Set(cells.map(cell => cell.endDate))].sort(),
+    cells,
+    cheapest,
+    currency: tripDetails.currency || DEFAULT_CURRENCY,
+    timestamp: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,213 @@
+import type { CategoryForecast, CategoryScope, ForecastAdvice, PriceForecast, PriceSnapshot, TripCategory, TripDetails } from '../types/travel';
+import { enabledCategories } from './categories';
+import { isTripCheck, snapshotValue } from './price-history';
+import { loadExchangeRates, roundForCurrency, DEFAULT_CURRENCY } from './currency';
+
+const DAY_MS = 86_400_000;
+
+/**
+ * Price checks loaded to fit a forecast
+ */
+export const DEFAULT_FORECAST_OBSERVATIONS = 100;
+
+const MIN_OBSERVATIONS = 3;
+const MAX_HORIZON_DAYS = 7;
+
+/**
+ * Smallest drop worth waiting for, as a fraction of the current price
+ */
+const MIN_SAVING = 0.02;
+
+/**
+ * z-score of the 80% band
+ */
+const BAND_Z = 1.2816;
+
+/**
+ * Prices are never steadier than this (as a fraction of the price), however
+ * smooth the history, and no advice is ever certain
+ */
+const MIN_VOLATILITY = 0.01;
+const MAX_CONFIDENCE = 0.95;
+
+/**
+ * How prices usually climb as departure nears: from `windowDays` out, each
+ * day closer adds `dailyIncrease` of the price. One trip's checks rarely
+ * span enough departure distances to fit this, so it is assumed rather
+ * than fitted, and taken out of the prices before the trend is fitted.
+ */
+const DEPARTURE_EFFECT: Record<CategoryScope, { windowDays: number; dailyIncrease: number }> = {
+  transport: { windowDays: 21, dailyIncrease: 0.01 },
+  stay: { windowDays: 14, dailyIncrease: 0.004 },
+  trip: { windowDays: 0, dailyIncrease: 0 },
+};
+
+interface Observation {
+  day: number; // Days since the epoch
+  value: number;
+}
+
+/**
+ * Relative premium over the undisturbed price, `daysOut` days before departure
+ */
+function departurePremium(scope: CategoryScope, daysOut: number): number {
+  const { windowDays, dailyIncrease } = DEPARTURE_EFFECT[scope];
+  return dailyIncrease * Math.max(0, windowDays - daysOut);
+}
+
+/**
+ * Standard normal CDF (Abramowitz and Stegun 7.1.26, good to 1e-7)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+const percent = (fraction: number) => `${fraction >= 0 ? '+' : ''}${Math.round(fraction * 1000) / 10}%`;
+
+/**
+ * Fit one price series and advise on it. The departure effect for each
+ * check is divided out, a straight line is fitted to what is left, and the
+ * line is extended `horizonDays` with the effect put back. The band comes
+ * from the line's prediction error.
+ */
+function forecastSeries(
+  id: string,
+  label: string,
+  series: Observation[],
+  premium: (daysOut: number) => number,
+  departureDay: number,
+  horizonDays: number,
+  currency: string
+): CategoryForecast {
+  const round = (amount: number) => roundForCurrency(amount, currency);
+  const current = series.length > 0 ? round(series[series.length - 1].value) : null;
+
+  if (series.length < MIN_OBSERVATIONS || current === null) {
+    return {
+      id, label, current, observations: series.length, advice: 'not-enough-data', confidence: 0,
+      reason: `${MIN_OBSERVATIONS} price checks are needed, ${series.length} so far`,
+    };
+  }
+
+  const latest = series[series.length - 1].day;
+  const daysOut = departureDay - latest;
+  if (daysOut <= 1) {
+    return { id, label, current, observations: series.length, advice: 'buy-now', confidence: MAX_CONFIDENCE, reason: 'Departure is too close to wait' };
+  }
+
+  // Least squares on prices with the departure effect taken out
+  const points = series.map(({ day, value }) => ({ x: day - latest, y: value / (1 + premium(departureDay - day)) }));
+  const n = points.length;
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / n;
+  const sxx = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  const slope = sxx > 0 ? points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0) / sxx : 0;
+  const intercept = meanY - slope * meanX;
+  const residual = Math.max(
+    MIN_VOLATILITY * meanY,
+    Math.sqrt(points.reduce((sum, p) => sum + (p.y - intercept - slope * p.x) ** 2, 0) / Math.max(1, n - 2))
+  );
+
+  const x0 = horizonDays;
+  const standardError = residual * Math.sqrt(1 + 1 / n + (sxx > 0 ? (x0 - meanX) ** 2 / sxx : 0));
+  const factor = 1 + premium(daysOut - horizonDays);
+  const expected = (intercept + slope * x0) * factor;
+  const spread = standardError * factor;
+  const departureEffect = factor / (1 + premium(daysOut)) - 1;
+
+  // Chance the price is at least MIN_SAVING lower by the horizon
+  const target = current * (1 - MIN_SAVING);
+  const dropChance = normalCdf((target - expected) / spread);
+  const advice: ForecastAdvice = dropChance > 0.5 ? 'wait' : 'buy-now';
+  const confidence = Math.min(MAX_CONFIDENCE, advice === 'wait' ? dropChance : 1 - dropChance);
+  const change = (expected - current) / current;
+
+  const reasons = [
+    `expected ${currency} ${round(expected)} (${percent(change)}) in ${horizonDays} day${horizonDays > 1 ? 's' : ''}`,
+    `trend ${percent(slope / meanY)}/day`,
+    `volatility ${Math.round((residual / meanY) * 100)}%`,
+  ];
+  if (departureEffect > 0) {
+    reasons.push(`${percent(departureEffect)} as departure nears`);
+  }
+
+  return {
+    id,
+    label,
+    observations: n,
+    current,
+    expected: round(expected),
+    low: round(Math.max(0, expected - BAND_Z * spread)),
+    high: round(expected + BAND_Z * spread),
+    trendPerDay: Math.round((slope / meanY) * 10000) / 10000,
+    volatility: Math.round((residual / meanY) * 10000) / 10000,
+    departureEffect: Math.round(departureEffect * 10000) / 10000,
+    advice,
+    confidence: Math.round(confidence * 100) / 100,
+    reason: reasons.join(', '),
+  };
+}
+
+/**
+ * Buy-now-or-wait advice for a trip, from its earlier price checks in
+ * `history` (other trips' checks are ignored; with `tripId`, only the stored
+ * trip's checks count). Each category's unit price
+ * and the total are forecast separately; the recommendation follows the
+ * total.
+ */
+export async function forecastPrices(tripDetails: TripDetails, history: PriceSnapshot[], tripId?: string, now = Date.now()): Promise<PriceForecast> {
+  const currency = tripDetails.currency || DEFAULT_CURRENCY;
+  const rates = await loadExchangeRates();
+  const departureDay = Date.parse(tripDetails.startDate) / DAY_MS;
+  const daysToDeparture = Math.max(0, Math.ceil(departureDay - now / DAY_MS));
+  const horizonDays = Math.max(1, Math.min(MAX_HORIZON_DAYS, daysToDeparture - 1));
+
+  const checks = history
+    .filter(snapshot => isTripCheck(snapshot, tripDetails, tripId))
+    .map(snapshot => ({ snapshot, day: new Date(snapshot.timestamp || 0).getTime() / DAY_MS }))
+    .filter(check => check.day > 0 && check.day <= now / DAY_MS)
+    .sort((a, b) => a.day - b.day)
+    .slice(-DEFAULT_FORECAST_OBSERVATIONS);
+
+  const seriesOf = (category: TripCategory | undefined): Observation[] => checks
+    .map(({ snapshot, day }) => ({ day, value: snapshotValue(snapshot, category, currency, rates) }))
+    .filter((observation): observation is Observation => observation.value !== null);
+
+  const categories = enabledCategories(tripDetails);
+  const categoryForecasts = categories.map(category => forecastSeries(
+    category.id, `${category.icon} ${category.label}`, seriesOf(category),
+    daysOut => departurePremium(category.scope, daysOut), departureDay, horizonDays, currency
+  ));
+
+  // The total's departure effect is its categories', weighted by their share of the latest costs
+  const latestCosts = checks[checks.length - 1]?.snapshot.costs?.byCategory || {};
+  const weights = categories.map(category => latestCosts[category.id] ?? 1);
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+  const totalForecast = forecastSeries(
+    'total', 'Total', seriesOf(undefined),
+    daysOut => categories.reduce((sum, category, i) => sum + departurePremium(category.scope, daysOut) * weights[i] / weightSum, 0),
+    departureDay, horizonDays, currency
+  );
+
+  const summary = totalForecast.advice === 'not-enough-data'
+    ? `Not enough price checks yet: ${totalForecast.reason}`
+    : totalForecast.advice === 'wait'
+      ? `Wait: the total is likely to drop to about ${currency} ${totalForecast.expected} within ${horizonDays} days (${Math.round(totalForecast.confidence * 100)}% confidence)`
+      : `Buy now: the total is unlikely to drop much within ${horizonDays} day${horizonDays > 1 ? 's' : ''} (${Math.round(totalForecast.confidence * 100)}% confidence)`;
+
+  return {
+    currency,
+    generatedAt: new Date(now).toISOString(),
+    daysToDeparture,
+    horizonDays,
+    observations: checks.length,
+    recommendation: totalForecast.advice,
+    confidence: totalForecast.confidence,
+    summary,
+    total: totalForecast,
+    categories: categoryForecasts,
+  };
+}
@@ -0,0 +1,27 @@
+import { readFromSmartBucket, saveToSmartBucket } from './raindrop.js';
+import { getPriceHistoryBucket } from './price-history';
+
+const MEMORY_SESSION_PREFIX = 'memory-session-';
+
+interface MemorySessionOwner {
+  sessionId: string;
+  userId: string;
+  createdAt: string;
+}
+
+/**
+ * Record who started a SmartMemory session. SmartMemory itself doesn't know
+ * about users, so this is what keeps one user out of another's conversation.
+ */
+export async function claimMemorySession(sessionId: string, userId: string, now = Date.now()): Promise<void> {
+  const owner: MemorySessionOwner = { sessionId, userId, createdAt: new Date(now).toISOString() };
+  await saveToSmartBucket(getPriceHistoryBucket(), `${MEMORY_SESSION_PREFIX}${sessionId}`, owner);
+}
+
+/**
+ * Whether the user started the session. Unknown sessions belong to no one.
+ */
+export async function ownsMemorySession(sessionId: string, userId: string): Promise<boolean> {
+  const owner: MemorySessionOwner | null = await readFromSmartBucket(getPriceHistoryBucket(), `${MEMORY_SESSION_PREFIX}${sessionId}`);
+  return owner?.userId === userId;
+}
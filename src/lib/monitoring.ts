@@ -0,0 +1,229 @@
+import type { TripDetails, TripMonitor, MonitorRun, PriceCheck } from '../types/travel';
+import { readFromSmartBucket, readAllFromSmartBucket, saveToSmartBucket } from './raindrop.js';
+import { checkAllPrices } from './pricing';
+import { getPriceHistoryBucket, priceSnapshotKey, savePriceSnapshot } from './price-history';
+import { resolveSimulationSettings } from './providers/simulation';
+import { checkDealAlerts } from './alerts';
+import { randomUUID } from 'crypto';
+
+export const DEFAULT_INTERVAL_MINUTES = 60;
+export const MIN_INTERVAL_MINUTES = 5; // The scheduler ticks every 5 minutes
+export const MAX_INTERVAL_MINUTES = 7 * 24 * 60;
+
+/**
+ * Monitors checked per scheduler tick, oldest due first. The rest wait for
+ * the next tick, which keeps each run inside the function time limit.
+ */
+const DEFAULT_BATCH_SIZE = 3;
+
+/**
+ * Failed runs in a row after which a monitor pauses itself
+ */
+const MAX_CONSECUTIVE_ERRORS = 5;
+
+export type MonitorAction = 'pause' | 'resume' | 'stop';
+export const MONITOR_ACTIONS: MonitorAction[] = ['pause', 'resume', 'stop'];
+
+const MONITOR_PREFIX = 'monitor-';
+
+/**
+ * A cadence in minutes, or null when it is out of range
+ */
+export function resolveInterval(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return DEFAULT_INTERVAL_MINUTES;
+  const minutes = Number(value);
+  return Number.isInteger(minutes) && minutes >= MIN_INTERVAL_MINUTES && minutes <= MAX_INTERVAL_MINUTES ? minutes : null;
+}
+
+function addMinutes(time: number, minutes: number): string {
+  return new Date(time + minutes * 60_000).toISOString();
+}
+
+/**
+ * Monitors are keyed by user, so a user's are listed without reading anyone
+ * else's. Only the scheduler lists every user's.
+ */
+function monitorKey(userId: string, id: string): string {
+  return `${MONITOR_PREFIX}${userId}-${id}`;
+}
+
+export async function saveMonitor(monitor: TripMonitor): Promise<void> {
+  await saveToSmartBucket(getPriceHistoryBucket(), monitorKey(monitor.userId, monitor.id), monitor);
+}
+
+export async function getMonitor(userId: string, id: string): Promise<TripMonitor | null> {
+  return readFromSmartBucket(getPriceHistoryBucket(), monitorKey(userId, id));
+}
+
+/**
+ * Every monitor, or one user's, oldest first
+ */
+export async function listMonitors(userId?: string): Promise<TripMonitor[]> {
+  const monitors: TripMonitor[] = await readAllFromSmartBucket(getPriceHistoryBucket(), userId ? `${MONITOR_PREFIX}${userId}-` : MONITOR_PREFIX);
+  // One user's id may begin another's, so the prefix alone isn't enough
+  return monitors
+    .filter(monitor => !userId || monitor.userId === userId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Start monitoring a trip. The first check runs on the next scheduler tick.
+ */
+export async function createMonitor(userId: string, tripDetails: TripDetails, intervalMinutes: number, now = Date.now(), tripId?: string): Promise<TripMonitor> {
+  const timestamp = new Date(now).toISOString();
+  const monitor: TripMonitor = {
+    id: randomUUID(),
+    userId,
+    tripId,
+    tripDetails,
+    intervalMinutes,
+    status: 'active',
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    nextRunAt: timestamp,
+    runCount: 0,
+    consecutiveErrors: 0,
+  };
+  await saveMonitor(monitor);
+  return monitor;
+}
+
+/**
+ * Keep a stored trip's monitors in step with it: they check the new details
+ * from their next run, or stop when the trip is archived or deleted (null)
+ */
+export async function syncTripMonitors(userId: string, tripId: string, tripDetails: TripDetails | null, now = Date.now()): Promise<void> {
+  const monitors = (await listMonitors(userId)).filter(monitor => monitor.tripId === tripId && monitor.status !== 'stopped');
+  for (const monitor of monitors) {
+    await saveMonitor(tripDetails
+      ? { ...monitor, tripDetails, updatedAt: new Date(now).toISOString() }
+      : applyMonitorAction(monitor, 'stop', now));
+  }
+}
+
+/**
+ * Why an action can't be applied to a monitor, or null when it can
+ */
+export function monitorActionError(monitor: TripMonitor, action: MonitorAction): string | null {
+  if (monitor.status === 'stopped') return 'Monitor is stopped; start a new one instead';
+  if (action === 'pause' && monitor.status === 'paused') return 'Monitor is already paused';
+  if (action === 'resume' && monitor.status === 'active') return 'Monitor is already active';
+  return null;
+}
+
+/**
+ * The monitor after a pause, resume or stop. Resuming checks on the next tick.
+ */
+export function applyMonitorAction(monitor: TripMonitor, action: MonitorAction, now = Date.now()): TripMonitor {
+  const status = action === 'resume' ? 'active' : action === 'pause' ? 'paused' : 'stopped';
+  return {
+    ...monitor,
+    status,
+    nextRunAt: status === 'active' ? new Date(now).toISOString() : null,
+    consecutiveErrors: action === 'resume' ? 0 : monitor.consecutiveErrors,
+    updatedAt: new Date(now).toISOString(),
+  };
+}
+
+/**
+ * The monitor on a new cadence, counted from its last run (so it may be
+ * due at once)
+ */
+export function rescheduleMonitor(monitor: TripMonitor, intervalMinutes: number, now = Date.now()): TripMonitor {
+  const lastRun = monitor.lastRun ? Date.parse(monitor.lastRun.timestamp) : now;
+  return {
+    ...monitor,
+    intervalMinutes,
+    nextRunAt: monitor.status === 'active' ? addMinutes(lastRun, intervalMinutes) : null,
+    updatedAt: new Date(now).toISOString(),
+  };
+}
+
+function summariseRun(priceCheck: PriceCheck, snapshotKey: string, timestamp: string): MonitorRun {
+  return {
+    timestamp,
+    totalCost: priceCheck.totalCost,
+    currency: priceCheck.currency,
+    withinTotalBudget: priceCheck.withinTotalBudget,
+    lowConfidence: priceCheck.lowConfidence,
+    snapshotKey,
+  };
+}
+
+/**
+ * Check one monitor's prices, save them to its user's price history and
+ * check the user's alert rules against them.
+ * A failed check is recorded on the monitor rather than thrown; after
+ * MAX_CONSECUTIVE_ERRORS in a row the monitor pauses. Monitors of trips
+ * that have already started are stopped instead of checked.
+ */
+export async function runMonitor(monitor: TripMonitor, now = Date.now()): Promise<TripMonitor> {
+  const timestamp = new Date(now).toISOString();
+
+  if (monitor.tripDetails.startDate < timestamp.split('T')[0]) {
+    console.log(`🏁 Trip for monitor ${monitor.id} has started, stopping`);
+    const stopped = applyMonitorAction(monitor, 'stop', now);
+    await saveMonitor(stopped);
+    return stopped;
+  }
+
+  // Claim the run first, so an overlapping tick doesn't check the same trip again
+  await saveMonitor({ ...monitor, nextRunAt: addMinutes(now, monitor.intervalMinutes) });
+
+  let lastRun: MonitorRun;
+  try {
+    const simulation = { ...resolveSimulationSettings(new URLSearchParams()), checkNumber: monitor.runCount };
+    const priceCheck = await checkAllPrices(monitor.tripDetails, simulation);
+    const snapshotKey = priceSnapshotKey(monitor.userId, now, monitor.tripId);
+    await savePriceSnapshot(getPriceHistoryBucket(), snapshotKey, monitor.tripDetails, priceCheck, monitor.tripId);
+    const alerts = await checkDealAlerts(monitor.userId, monitor.tripDetails, priceCheck, snapshotKey, monitor.tripId);
+    lastRun = { ...summariseRun(priceCheck, snapshotKey, timestamp), alertIds: alerts.map(alert => alert.id) };
+    console.log(`🛰️ Monitor ${monitor.id}: ${priceCheck.currency} ${priceCheck.totalCost}${priceCheck.withinTotalBudget ? ' (within budget)' : ''}`);
+  } catch (error) {
+    lastRun = { timestamp, error: error instanceof Error ? error.message : 'Unknown error' };
+    console.error(`❌ Monitor ${monitor.id} check failed:`, error);
+  }
+
+  // The monitor may have been paused, stopped or rescheduled while it ran
+  const current = (await getMonitor(monitor.userId, monitor.id)) || monitor;
+  const consecutiveErrors = lastRun.error ? current.consecutiveErrors + 1 : 0;
+  const paused = current.status === 'active' && consecutiveErrors >= MAX_CONSECUTIVE_ERRORS;
+  if (paused) {
+    console.warn(`⏸️ Monitor ${monitor.id} paused after ${consecutiveErrors} failed checks`);
+  }
+
+  const status = paused ? 'paused' : current.status;
+  const updated: TripMonitor = {
+    ...current,
+    status,
+    nextRunAt: status === 'active' ? addMinutes(now, current.intervalMinutes) : null,
+    lastRun,
+    runCount: current.runCount + 1,
+    consecutiveErrors,
+    updatedAt: timestamp,
+  };
+  await saveMonitor(updated);
+  return updated;
+}
+
+export interface MonitorTick {
+  checked: TripMonitor[];
+  due: number; // Active monitors due at the start of the tick, including any left for the next one
+}
+
+/**
+ * Run the active monitors that are due, one at a time, oldest due first.
+ * Called by the scheduler on every tick.
+ */
+export async function runDueMonitors(options: { now?: number; limit?: number } = {}): Promise<MonitorTick> {
+  const { now = Date.now(), limit = DEFAULT_BATCH_SIZE } = options;
+  const due = (await listMonitors())
+    .filter(monitor => monitor.status === 'active' && monitor.nextRunAt && Date.parse(monitor.nextRunAt) <= now)
+    .sort((a, b) => a.nextRunAt!.localeCompare(b.nextRunAt!));
+
+  const checked: TripMonitor[] = [];
+  for (const monitor of due.slice(0, limit)) {
+    checked.push(await runMonitor(monitor, Date.now()));
+  }
+  return { checked, due: due.length };
+}
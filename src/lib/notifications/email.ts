@@ -0,0 +1,66 @@
+import type { NotificationMessage, NotificationSender } from '../../types/travel';
+import { callService } from '../resilience';
+import nodemailer from 'nodemailer';
+
+const DEFAULT_FROM = 'The Travel Guardian <guardian@localhost>';
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function smtpHost(): string | undefined {
+  return process.env.SMTP_HOST || import.meta.env.SMTP_HOST;
+}
+
+/**
+ * SMTP transport from SMTP_* settings. A local catcher such as Mailpit
+ * needs only SMTP_HOST=localhost and SMTP_PORT=1025.
+ */
+function createTransport() {
+  const port = parseInt(process.env.SMTP_PORT || import.meta.env.SMTP_PORT || '587', 10);
+  const user = process.env.SMTP_USER || import.meta.env.SMTP_USER;
+  return nodemailer.createTransport({
+    host: smtpHost(),
+    port,
+    secure: (process.env.SMTP_SECURE || import.meta.env.SMTP_SECURE) === 'true' || port === 465,
+    auth: user ? { user, pass: process.env.SMTP_PASS || import.meta.env.SMTP_PASS } : undefined,
+  });
+}
+
+export function emailConfigured(): boolean {
+  return Boolean(smtpHost());
+}
+
+/**
+ * Send one email through the SMTP_* settings. Used for deal alerts and
+ * sign-in links.
+ */
+export async function sendEmail(to: string, message: Pick<NotificationMessage, 'subject' | 'text' | 'html'>, headers: Record<string, string> = {}): Promise<void> {
+  if (!smtpHost()) {
+    throw new Error('SMTP_HOST is not set');
+  }
+
+  const transport = createTransport();
+  try {
+    await callService('smtp', () => transport.sendMail({
+      from: process.env.NOTIFICATION_FROM || import.meta.env.NOTIFICATION_FROM || DEFAULT_FROM,
+      to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      headers,
+    }));
+  } finally {
+    transport.close();
+  }
+}
+
+export const emailSender: NotificationSender = {
+  type: 'email',
+
+  targetError(target) {
+    if (!emailConfigured()) return 'Email notifications are not configured on this server (SMTP_HOST)';
+    return EMAIL_PATTERN.test(target) ? null : 'target must be an email address';
+  },
+
+  async send(channel, message, deliveryId) {
+    await sendEmail(channel.target, message, { 'X-Guardian-Delivery': deliveryId });
+  },
+};
@@ -0,0 +1,343 @@
+import type {
+  DealAlert,
+  NotificationChannel,
+  NotificationChannelType,
+  NotificationDelivery,
+  NotificationMessage,
+  NotificationSender,
+  PriceCheck,
+  TripDetails,
+} from '../../types/travel';
+import { listSmartBucket, readFromSmartBucket, readAllFromSmartBucket, saveToSmartBucket, deleteFromSmartBucket } from '../raindrop.js';
+import { getPriceHistoryBucket } from '../price-history';
+import { isRetryable, CircuitOpenError } from '../resilience';
+import { siteOrigin } from '../auth';
+import { emailSender, sendEmail } from './email';
+import { webhookSender, createWebhookSecret } from './webhook';
+import { renderChannelConfirmationEmail, renderDealNotification } from './templates';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+
+/**
+ * Registry of notification senders, keyed by channel type.
+ * Add new kinds of channel with registerNotificationSender().
+ */
+const senders = new Map<NotificationChannelType, NotificationSender>([
+  [emailSender.type, emailSender],
+  [webhookSender.type, webhookSender],
+]);
+
+export function registerNotificationSender(sender: NotificationSender): void {
+  senders.set(sender.type, sender);
+}
+
+export function listNotificationSenders(): NotificationChannelType[] {
+  return [...senders.keys()];
+}
+
+/**
+ * Attempts per delivery, the first included. Failed attempts are retried
+ * on later scheduler ticks, RETRY_DELAY_MINUTES after the first failure and
+ * twice as long after each one after.
+ */
+const MAX_DELIVERY_ATTEMPTS = 4;
+const RETRY_DELAY_MINUTES = 5;
+
+/**
+ * Pending deliveries retried per scheduler tick
+ */
+const DEFAULT_RETRY_BATCH_SIZE = 10;
+
+const CHANNEL_PREFIX = 'notification-channel-';
+const DELIVERY_PREFIX = 'notification-delivery-';
+const RETRY_PREFIX = 'notification-retry-'; // One marker per pending delivery, so ticks don't read the whole log
+const CONFIRMATION_PREFIX = 'notification-confirm-';
+
+export const CHANNEL_CONFIRMATION_TTL_HOURS = 24;
+
+interface ChannelConfirmation {
+  userId: string;
+  channelId: string;
+  target: string; // The address the link was sent to; changing the channel's target voids it
+  expiresAt: string;
+}
+
+/**
+ * Why a channel can't be stored, or null when it can
+ */
+export function notificationChannelError(channel: Partial<NotificationChannel>): string | null {
+  const sender = channel.type ? senders.get(channel.type) : undefined;
+  if (!sender) {
+    return `type must be one of: ${listNotificationSenders().join(', ')}`;
+  }
+  if (typeof channel.target !== 'string' || !channel.target.trim()) {
+    return 'target is required';
+  }
+  return sender.targetError(channel.target.trim());
+}
+
+/**
+ * A channel as shown to its user: webhook secrets are only returned once,
+ * when the channel is created
+ */
+export function publicChannel({ secret, ...channel }: NotificationChannel): Omit<NotificationChannel, 'secret'> & { signed: boolean } {
+  return { ...channel, signed: !!secret };
+}
+
+/**
+ * Channels are keyed by user, so a user's are listed without reading anyone else's
+ */
+function channelKey(userId: string, id: string): string {
+  return `${CHANNEL_PREFIX}${userId}-${id}`;
+}
+
+export async function saveNotificationChannel(channel: NotificationChannel): Promise<void> {
+  await saveToSmartBucket(getPriceHistoryBucket(), channelKey(channel.userId, channel.id), channel);
+}
+
+export async function getNotificationChannel(userId: string, id: string): Promise<NotificationChannel | null> {
+  return readFromSmartBucket(getPriceHistoryBucket(), channelKey(userId, id));
+}
+
+/**
+ * The channel, unless it belongs to another user than the one signed in
+ */
+export async function findNotificationChannel(id: string | undefined, userId: string | undefined): Promise<NotificationChannel | null> {
+  const channel = id && userId ? await getNotificationChannel(userId, id) : null;
+  return channel && userId && channel.userId === userId ? channel : null;
+}
+
+export async function deleteNotificationChannel(channel: NotificationChannel): Promise<void> {
+  await deleteFromSmartBucket(getPriceHistoryBucket(), channelKey(channel.userId, channel.id));
+}
+
+/**
+ * A user's notification channels, oldest first
+ */
+export async function listNotificationChannels(userId: string): Promise<NotificationChannel[]> {
+  const channels: NotificationChannel[] = await readAllFromSmartBucket(getPriceHistoryBucket(), `${CHANNEL_PREFIX}${userId}-`);
+  // One user's id may begin another's, so the prefix alone isn't enough
+  return channels
+    .filter(channel => channel.userId === userId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Whether anything may be sent through the channel: email addresses only
+ * once they have confirmed they want the alerts, so a channel can't be used
+ * to mail someone else
+ */
+export function isChannelConfirmed(channel: NotificationChannel): boolean {
+  return channel.type !== 'email' || !!channel.confirmedAt;
+}
+
+function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Email the channel's address a one-time link that confirms it. Only the
+ * token's hash is stored.
+ */
+export async function sendChannelConfirmation(channel: NotificationChannel, requestUrl: URL, now = Date.now()): Promise<void> {
+  const token = randomBytes(32).toString('base64url');
+  const confirmation: ChannelConfirmation = {
+    userId: channel.userId,
+    channelId: channel.id,
+    target: channel.target,
+    expiresAt: new Date(now + CHANNEL_CONFIRMATION_TTL_HOURS * 3_600_000).toISOString(),
+  };
+  await saveToSmartBucket(getPriceHistoryBucket(), `${CONFIRMATION_PREFIX}${sha256(token)}`, confirmation);
+
+  const link = `${siteOrigin(requestUrl)}/api/notifications/confirm?${new URLSearchParams({ token })}`;
+  await sendEmail(channel.target, renderChannelConfirmationEmail(link, CHANNEL_CONFIRMATION_TTL_HOURS));
+}
+
+/**
+ * Confirm the channel a token was sent for, or null when the token is
+ * unknown, used or expired, or the channel has been deleted or pointed at
+ * another address since. A token works once.
+ */
+export async function confirmNotificationChannel(token: string, now = Date.now()): Promise<NotificationChannel | null> {
+  const bucketName = getPriceHistoryBucket();
+  const key = `${CONFIRMATION_PREFIX}${sha256(token)}`;
+  const confirmation: ChannelConfirmation | null = await readFromSmartBucket(bucketName, key);
+  if (!confirmation) return null;
+
+  await deleteFromSmartBucket(bucketName, key);
+  if (Date.parse(confirmation.expiresAt) <= now) return null;
+
+  const channel = await getNotificationChannel(confirmation.userId, confirmation.channelId);
+  if (!channel || channel.target !== confirmation.target) return null;
+
+  const timestamp = new Date(now).toISOString();
+  const confirmed: NotificationChannel = { ...channel, confirmedAt: channel.confirmedAt || timestamp, updatedAt: timestamp };
+  await saveNotificationChannel(confirmed);
+  return confirmed;
+}
+
+/**
+ * Add a channel. Webhooks get a signing secret unless one is given. Email
+ * channels start unconfirmed: see sendChannelConfirmation().
+ */
+export async function createNotificationChannel(
+  userId: string,
+  fields: { type: NotificationChannelType; target: string; secret?: string; enabled?: boolean },
+  now = Date.now()
+): Promise<NotificationChannel> {
+  const timestamp = new Date(now).toISOString();
+  const channel: NotificationChannel = {
+    id: randomUUID(),
+    userId,
+    type: fields.type,
+    target: fields.target.trim(),
+    secret: fields.type === 'webhook' ? fields.secret || createWebhookSecret() : undefined,
+    enabled: fields.enabled ?? true,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+  await saveNotificationChannel(channel);
+  return channel;
+}
+
+/**
+ * Deliveries are keyed by user and time, so a user's log lists in order
+ */
+function deliveryKey(delivery: NotificationDelivery): string {
+  return `${DELIVERY_PREFIX}${delivery.userId}-${Date.parse(delivery.createdAt)}-${delivery.id}`;
+}
+
+async function saveDelivery(delivery: NotificationDelivery): Promise<void> {
+  const bucketName = getPriceHistoryBucket();
+  const key = deliveryKey(delivery);
+  await saveToSmartBucket(bucketName, key, delivery);
+
+  if (delivery.status === 'pending') {
+    await saveToSmartBucket(bucketName, `${RETRY_PREFIX}${key}`, { id: delivery.id, nextAttemptAt: delivery.nextAttemptAt });
+  } else if (delivery.attempts > 1) {
+    await deleteFromSmartBucket(bucketName, `${RETRY_PREFIX}${key}`);
+  }
+}
+
+/**
+ * Try to send a delivery once (the sender retries quick failures itself)
+ * and record the outcome. Errors the receiver won't change its mind about,
+ * such as a 4xx from a webhook, fail the delivery at once; an open circuit
+ * is waited out.
+ */
+async function attemptDelivery(delivery: NotificationDelivery, channel: NotificationChannel | null, now = Date.now()): Promise<NotificationDelivery> {
+  const attempts = delivery.attempts + 1;
+  const timestamp = new Date(now).toISOString();
+
+  let error: string | undefined;
+  let retryable = false;
+  if (!channel || !channel.enabled) {
+    error = channel ? 'Channel is disabled' : 'Channel was deleted';
+  } else if (!isChannelConfirmed(channel)) {
+    error = 'Email address is not confirmed';
+  } else {
+    try {
+      await senders.get(channel.type)!.send(channel, delivery.message, delivery.id);
+    } catch (err) {
+      error = err instanceof Error ? err.message : 'Unknown error';
+      retryable = err instanceof CircuitOpenError || isRetryable(err);
+    }
+  }
+
+  let updated: NotificationDelivery;
+  if (!error) {
+    updated = { ...delivery, status: 'delivered', attempts, lastError: undefined, nextAttemptAt: undefined, updatedAt: timestamp, deliveredAt: timestamp };
+    console.log(`📨 Sent ${delivery.channelType} notification ${delivery.id} to ${delivery.target}`);
+  } else if (retryable && attempts < MAX_DELIVERY_ATTEMPTS) {
+    const nextAttemptAt = new Date(now + RETRY_DELAY_MINUTES * 2 ** (attempts - 1) * 60_000).toISOString();
+    updated = { ...delivery, status: 'pending', attempts, lastError: error, nextAttemptAt, updatedAt: timestamp };
+    console.warn(`🔁 ${delivery.channelType} notification ${delivery.id} failed (${error}), retrying after ${nextAttemptAt}`);
+  } else {
+    updated = { ...delivery, status: 'failed', attempts, lastError: error, nextAttemptAt: undefined, updatedAt: timestamp };
+    console.error(`❌ ${delivery.channelType} notification ${delivery.id} failed after ${attempts} attempt${attempts > 1 ? 's' : ''}: ${error}`);
+  }
+
+  await saveDelivery(updated);
+  return updated;
+}
+
+/**
+ * Send a message to one channel and log the delivery. Failures are logged
+ * for retry, not thrown.
+ */
+export async function sendNotification(channel: NotificationChannel, message: NotificationMessage, alertIds: string[] = [], now = Date.now()): Promise<NotificationDelivery> {
+  const timestamp = new Date(now).toISOString();
+  const delivery: NotificationDelivery = {
+    id: randomUUID(),
+    userId: channel.userId,
+    channelId: channel.id,
+    channelType: channel.type,
+    target: channel.target,
+    alertIds,
+    message,
+    status: 'pending',
+    attempts: 0,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+  return attemptDelivery(delivery, channel, now);
+}
+
+/**
+ * Send the alerts one price check raised to each of the user's enabled,
+ * confirmed channels
+ */
+export async function notifyDealAlerts(userId: string, alerts: DealAlert[], tripDetails: TripDetails, priceCheck: PriceCheck): Promise<NotificationDelivery[]> {
+  if (alerts.length === 0) return [];
+
+  const channels = (await listNotificationChannels(userId)).filter(channel => channel.enabled && isChannelConfirmed(channel));
+  if (channels.length === 0) return [];
+
+  const message = renderDealNotification(alerts, tripDetails, priceCheck);
+  const alertIds = alerts.map(alert => alert.id);
+  const deliveries: NotificationDelivery[] = [];
+  for (const channel of channels) {
+    deliveries.push(await sendNotification(channel, message, alertIds));
+  }
+  return deliveries;
+}
+
+/**
+ * A user's notification deliveries, newest first
+ */
+export async function listNotificationDeliveries(userId: string, limit = 20): Promise<NotificationDelivery[]> {
+  const bucketName = getPriceHistoryBucket();
+  const objects = (await listSmartBucket(bucketName, `${DELIVERY_PREFIX}${userId}-`))
+    .sort((a: any, b: any) => b.key.localeCompare(a.key))
+    .slice(0, limit);
+  const deliveries = await Promise.all(objects.map((obj: any) => readFromSmartBucket(bucketName, obj.key).catch(() => null)));
+  // One user's id may begin another's, so the prefix alone isn't enough
+  return deliveries.filter((delivery): delivery is NotificationDelivery => delivery?.userId === userId);
+}
+
+export interface DeliveryRetryTick {
+  retried: NotificationDelivery[];
+  pending: number; // Pending deliveries at the start of the tick, due or not
+}
+
+/**
+ * Retry pending deliveries that are due, oldest due first. Called by the
+ * scheduler on every tick.
+ */
+export async function retryPendingDeliveries(options: { now?: number; limit?: number } = {}): Promise<DeliveryRetryTick> {
+  const { now = Date.now(), limit = DEFAULT_RETRY_BATCH_SIZE } = options;
+  const bucketName = getPriceHistoryBucket();
+  const markers = await listSmartBucket(bucketName, RETRY_PREFIX);
+
+  const pending = (await Promise.all(markers.map((marker: any) =>
+    readFromSmartBucket(bucketName, marker.key.slice(RETRY_PREFIX.length)).catch(() => null))))
+    .filter((delivery): delivery is NotificationDelivery => delivery?.status === 'pending');
+  const due = pending
+    .filter(delivery => !delivery.nextAttemptAt || Date.parse(delivery.nextAttemptAt) <= now)
+    .sort((a, b) => (a.nextAttemptAt || '').localeCompare(b.nextAttemptAt || ''));
+
+  const retried: NotificationDelivery[] = [];
+  for (const delivery of due.slice(0, limit)) {
+    retried.push(await attemptDelivery(delivery, await getNotificationChannel(delivery.userId, delivery.channelId), Date.now()));
+  }
+  return { retried, pending: pending.length };
+}
@@ -0,0 +1,134 @@
+import type { DealAlert, NotificationMessage, PriceCheck, TripDetails } from '../../types/travel';
+import { roundForCurrency } from '../currency';
+
+/**
+ * Booking links of each priced category, by category label
+ */
+function bookingLinks(priceCheck: PriceCheck): Array<{ label: string; urls: string[] }> {
+  return priceCheck.categoryInfo
+    .map(info => ({ label: `${info.icon} ${info.label}`, urls: priceCheck.categories[info.id]?.bookingUrls || [] }))
+    .filter(links => links.urls.length > 0);
+}
+
+function describeTrip(tripDetails: TripDetails): string {
+  const stops = tripDetails.legs?.length ? tripDetails.legs.map(leg => leg.destination) : [tripDetails.destination];
+  return `${[tripDetails.origin, ...stops].join(' → ')}, ${tripDetails.startDate} to ${tripDetails.endDate}`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function dashboardUrl(): string | undefined {
+  const siteUrl = process.env.URL || import.meta.env.URL;
+  return siteUrl ? `${siteUrl.replace(/\/$/, '')}/dashboard` : undefined;
+}
+
+/**
+ * Email and webhook content for the alerts one price check raised
+ */
+export function renderDealNotification(alerts: DealAlert[], tripDetails: TripDetails, priceCheck: PriceCheck): NotificationMessage {
+  const trip = describeTrip(tripDetails);
+  const total = `${priceCheck.currency} ${roundForCurrency(priceCheck.totalCost, priceCheck.currency)}`;
+  const links = bookingLinks(priceCheck);
+  const dashboard = dashboardUrl();
+  const subject = alerts.length === 1
+    ? `🚨 ${alerts[0].message}`
+    : `🚨 ${alerts.length} deal alerts for ${trip}`;
+
+  const text = [
+    `Deal alerts for ${trip}`,
+    '',
+    ...alerts.map(alert => `- ${alert.message}`),
+    '',
+    `Total: ${total}${priceCheck.withinTotalBudget ? ' (within budget)' : ''}`,
+    ...links.flatMap(({ label, urls }) => ['', `Book ${label}:`, ...urls]),
+    ...(dashboard ? ['', `Dashboard: ${dashboard}`] : []),
+  ].join('\n');
+
+  const html = `<h2>Deal alerts for ${escapeHtml(trip)}</h2>
+<ul>${alerts.map(alert => `<li>${escapeHtml(alert.message)}</li>`).join('')}</ul>
+<p><strong>Total: ${escapeHtml(total)}</strong>${priceCheck.withinTotalBudget ? ' ✅ within budget' : ''}</p>
+${links.map(({ label, urls }) => `<p>Book ${escapeHtml(label)}:<br>${urls.map(url => `<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`).join('<br>')}</p>`).join('\n')}
+${dashboard ? `<p><a href="${escapeHtml(dashboard)}">Open the dashboard</a></p>` : ''}`;
+
+  return {
+    event: 'deal.alert',
+    subject,
+    text,
+    html,
+    payload: {
+      event: 'deal.alert',
+      trip: {
+        origin: tripDetails.origin,
+        destination: tripDetails.destination,
+        startDate: tripDetails.startDate,
+        endDate: tripDetails.endDate,
+        legs: tripDetails.legs?.map(leg => leg.destination),
+      },
+      alerts: alerts.map(({ id, ruleId, type, category, message, value, reference, triggeredAt }) =>
+        ({ id, ruleId, type, category, message, value, reference, triggeredAt })),
+      totalCost: priceCheck.totalCost,
+      currency: priceCheck.currency,
+      withinTotalBudget: priceCheck.withinTotalBudget,
+      checkedAt: priceCheck.timestamp,
+      bookingUrls: Object.fromEntries(priceCheck.categoryInfo.map(info => [info.id, priceCheck.categories[info.id]?.bookingUrls || []])),
+      dashboardUrl: dashboard,
+    },
+  };
+}
+
+/**
+ * Sent when a user tests a channel
+ */
+export function renderTestNotification(): NotificationMessage {
+  const text = 'This is a test notification from The Travel Guardian. Deal alerts will be sent here.';
+  return {
+    event: 'test',
+    subject: '🛡️ Travel Guardian test notification',
+    text,
+    html: `<p>${escapeHtml(text)}</p>`,
+    payload: { event: 'test', message: text },
+  };
+}
+
+/**
+ * Sent to a new email channel's address, which gets no alerts until it is confirmed
+ */
+export function renderChannelConfirmationEmail(link: string, expiresInHours: number): Pick<NotificationMessage, 'subject' | 'text' | 'html'> {
+  const text = `Someone asked for Travel Guardian deal alerts to be sent to this address. Confirm to start receiving them: ${link}\n\nThe link works once and expires in ${expiresInHours} hours. If you didn't ask for alerts, ignore this email and none will be sent.`;
+  return {
+    subject: '🛡️ Confirm Travel Guardian deal alerts',
+    text,
+    html: `<p>Someone asked for Travel Guardian deal alerts to be sent to this address.</p>
+<p><a href="${escapeHtml(link)}">Confirm and start receiving deal alerts</a></p>
+<p>The link works once and expires in ${expiresInHours} hours. If you didn't ask for alerts, ignore this email and none will be sent.</p>`,
+  };
+}
+
+/**
+ * Sign-up confirmation email, sent by /api/auth/register to a new address
+ */
+export function renderSignUpEmail(link: string, expiresInMinutes: number): Pick<NotificationMessage, 'subject' | 'text' | 'html'> {
+  const text = `Confirm your email to finish creating your Travel Guardian account: ${link}\n\nThe link works once and expires in ${expiresInMinutes} minutes. If you didn't sign up, ignore this email and no account will be created.`;
+  return {
+    subject: '🛡️ Confirm your Travel Guardian account',
+    text,
+    html: `<p><a href="${escapeHtml(link)}">Confirm your email and create your Travel Guardian account</a></p>
+<p>The link works once and expires in ${expiresInMinutes} minutes. If you didn't sign up, ignore this email and no account will be created.</p>`,
+  };
+}
+
+/**
+ * Sign-in link email, sent by /api/auth/magic-link, and by /api/auth/register
+ * to addresses that already have an account
+ */
+export function renderSignInEmail(link: string, expiresInMinutes: number): Pick<NotificationMessage, 'subject' | 'text' | 'html'> {
+  const text = `Sign in to The Travel Guardian: ${link}\n\nThe link works once and expires in ${expiresInMinutes} minutes. If you didn't ask for it, ignore this email.`;
+  return {
+    subject: '🛡️ Your Travel Guardian sign-in link',
+    text,
+    html: `<p><a href="${escapeHtml(link)}">Sign in to The Travel Guardian</a></p>
+<p>The link works once and expires in ${expiresInMinutes} minutes. If you didn't ask for it, ignore this email.</p>`,
+  };
+}
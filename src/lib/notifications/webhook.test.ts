@@ -0,0 +1,419 @@
+import { spawn, type ChildProcess } from 'child_process';
+import { createHmac } from 'crypto';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { fileURLToPath } from 'url';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { NotificationChannel } from '../../types/travel';
+import { configureService, resetResilience } from '../resilience';
+import {
+  confirmNotificationChannel,
+  createNotificationChannel,
+  getNotificationChannel,
+  listNotificationDeliveries,
+  retryPendingDeliveries,
+  saveNotificationChannel,
+  sendChannelConfirmation,
+  sendNotification,
+} from './index';
+import { emailSender } from './email';
+import { renderTestNotification } from './templates';
+import { signWebhookPayload, webhookSender } from './webhook';
+
+// The Raindrop SDK isn't reachable in tests; the SmartBucket is a map
+const store = vi.hoisted(() => new Map<string, unknown>());
+
+vi.mock('../raindrop.js', () => ({
+  listSmartBucket: async (_bucket: string, prefix = '') => [...store.keys()].filter(key => key.startsWith(prefix)).map(key => ({ key })),
+  readFromSmartBucket: async (_bucket: string, key: string) => store.has(key) ? structuredClone(store.get(key)) : null,
+  readAllFromSmartBucket: async (_bucket: string, prefix: string) =>
+    [...store].filter(([key]) => key.startsWith(prefix)).map(([, value]) => structuredClone(value)),
+  saveToSmartBucket: async (_bucket: string, key: string, data: unknown) => {
+    store.set(key, structuredClone(data));
+  },
+  deleteFromSmartBucket: async (_bucket: string, key: string) => {
+    store.delete(key);
+  },
+}));
+
+// Names the tests point at an address; every other name resolves as usual
+const resolved = vi.hoisted(() => new Map<string, string>());
+
+vi.mock('dns/promises', async importOriginal => {
+  const dns = await importOriginal<typeof import('dns/promises')>();
+  return {
+    ...dns,
+    lookup: async (host: string, options: any) => resolved.has(host) ? [{ address: resolved.get(host)!, family: 4 }] : dns.lookup(host, options),
+  };
+});
+
+// Emails are kept instead of sent
+const sentEmails = vi.hoisted(() => [] as Array<{ to: string; text: string }>);
+
+vi.mock('./email', async importOriginal => ({
+  ...await importOriginal<typeof import('./email')>(),
+  sendEmail: async (to: string, message: { text: string }) => {
+    sentEmails.push({ to, text: message.text });
+  },
+}));
+
+const RECEIVER = fileURLToPath(new URL('../../../scripts/webhook-receiver.mjs', import.meta.url));
+const SECRET = 'whsec_test';
+const MINUTE = 60_000;
+
+interface Receiver {
+  url: string;
+  host: string;
+  output: string[];
+  process: ChildProcess;
+}
+
+const receivers: Receiver[] = [];
+
+async function freePort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+  return port;
+}
+
+async function waitFor(check: () => boolean, what: string, timeoutMs = 5_000): Promise<void> {
+  const started = Date.now();
+  while (!check()) {
+    if (Date.now() - started > timeoutMs) throw new Error(`Timed out waiting for ${what}`);
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+/**
+ * Start scripts/webhook-receiver.mjs, answering with `failStatus` if given
+ */
+async function startReceiver(failStatus?: number): Promise<Receiver> {
+  const port = await freePort();
+  const child = spawn(process.execPath, [RECEIVER], {
+    // Away from the repo, so a developer's .env doesn't change the receiver's settings
+    cwd: tmpdir(),
+    env: { ...process.env, WEBHOOK_PORT: String(port), WEBHOOK_SECRET: SECRET, WEBHOOK_FAIL_STATUS: failStatus ? String(failStatus) : '', DOTENV_CONFIG_QUIET: 'true' },
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+  const receiver: Receiver = { url: `http://127.0.0.1:${port}/hooks`, host: `127.0.0.1:${port}`, output: [], process: child };
+  child.stdout!.on('data', chunk => receiver.output.push(...String(chunk).split('\n').filter(Boolean)));
+  receivers.push(receiver);
+
+  await waitFor(() => receiver.output.some(line => line.includes('Receiving webhooks')), 'the webhook receiver to start');
+  // One attempt per delivery, so each scheduler tick is one request
+  configureService(`webhook:${receiver.host}`, { retries: 0, timeoutMs: 2_000 });
+  return receiver;
+}
+
+function received(receiver: Receiver, deliveryId: string): string | undefined {
+  return receiver.output.find(line => line.includes(deliveryId));
+}
+
+function channelFor(receiver: Receiver, fields: Partial<NotificationChannel> = {}): NotificationChannel {
+  const timestamp = new Date().toISOString();
+  return {
+    id: `channel-${receivers.indexOf(receiver)}`,
+    userId: 'user-1',
+    type: 'webhook',
+    target: receiver.url,
+    secret: SECRET,
+    enabled: true,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    ...fields,
+  };
+}
+
+beforeAll(() => {
+  resetResilience();
+});
+
+afterAll(() => {
+  for (const receiver of receivers) {
+    receiver.process.kill();
+  }
+});
+
+beforeEach(() => {
+  store.clear();
+  resolved.clear();
+  sentEmails.length = 0;
+  vi.stubEnv('RAINDROP_SMARTBUCKET_NAME', 'test-bucket');
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+});
+
+describe('signing', () => {
+  let receiver: Receiver;
+
+  beforeAll(async () => {
+    receiver = await startReceiver();
+  });
+
+  it('signs `<timestamp>.<body>` with HMAC-SHA256', () => {
+    const expected = createHmac('sha256', SECRET).update('1700000000.{"event":"test"}').digest('hex');
+    expect(signWebhookPayload(SECRET, '1700000000', '{"event":"test"}')).toBe(expected);
+  });
+
+  it('sends deliveries the receiver can verify', async () => {
+    const delivery = await sendNotification(channelFor(receiver), renderTestNotification());
+
+    await waitFor(() => !!received(receiver, delivery.id), 'the delivery');
+    expect(received(receiver, delivery.id)).toContain('✅ signature valid');
+  });
+
+  it('signs with the channel\'s own secret', async () => {
+    const delivery = await sendNotification(channelFor(receiver, { secret: 'whsec_other' }), renderTestNotification());
+
+    await waitFor(() => !!received(receiver, delivery.id), 'the delivery');
+    expect(received(receiver, delivery.id)).toContain('❌ signature INVALID');
+  });
+});
+
+describe('targets', () => {
+  it.each([
+    'http://localhost:4400/',
+    'http://app.localhost/',
+    'http://127.0.0.1/',
+    'http://0.0.0.0/',
+    'http://10.1.2.3/',
+    'http://172.20.0.1/',
+    'http://192.168.1.10/',
+    'http://169.254.169.254/latest/meta-data',
+    'http://[::1]/',
+    'http://[::ffff:127.0.0.1]/',
+    'http://[fe80::1]/',
+    'http://[fd00::1]/',
+  ])('refuses %s outside development', target => {
+    vi.stubEnv('DEV', false);
+    expect(webhookSender.targetError(target)).toBe('target must be a public host');
+  });
+
+  it.each(['https://hooks.example.com/travel', 'http://8.8.8.8/hook', 'http://172.32.0.1/'])('accepts %s', target => {
+    vi.stubEnv('DEV', false);
+    expect(webhookSender.targetError(target)).toBeNull();
+  });
+
+  it('accepts local receivers in development', () => {
+    expect(webhookSender.targetError('http://localhost:4400/')).toBeNull();
+  });
+
+  it('refuses URLs that are not http(s)', () => {
+    expect(webhookSender.targetError('ftp://hooks.example.com/')).toBe('target must be an http(s) URL');
+    expect(webhookSender.targetError('not a url')).toBe('target must be an http(s) URL');
+  });
+
+  it('does not send to a stored private target outside development', async () => {
+    const receiver = await startReceiver();
+    vi.stubEnv('DEV', false);
+
+    const delivery = await sendNotification(channelFor(receiver), renderTestNotification());
+
+    expect(delivery.lastError).toBe(`Webhook target ${receiver.host} is not a public host`);
+    expect(receiver.output.filter(line => line.startsWith('📨 ') && !line.includes('Receiving'))).toEqual([]);
+  });
+
+  it('checks a stored IPv6 address without its brackets', async () => {
+    vi.stubEnv('DEV', false);
+
+    const delivery = await sendNotification(channelFor(await startReceiver(), { target: 'http://[::ffff:7f00:1]:9/hooks' }), renderTestNotification());
+
+    expect(delivery.lastError).toBe('Webhook target [::ffff:7f00:1]:9 is not a public host');
+  });
+
+  it('refuses a name that resolves to a private address outside development', async () => {
+    resolved.set('hooks.test', '10.0.0.5');
+    vi.stubEnv('DEV', false);
+
+    const delivery = await sendNotification(channelFor(await startReceiver(), { target: 'http://hooks.test/hooks' }), renderTestNotification());
+
+    expect(delivery.lastError).toBe('Webhook target hooks.test is not a public host');
+  });
+
+  it('connects to the address it checked rather than resolving the name again', async () => {
+    const receiver = await startReceiver();
+    const target = receiver.url.replace('127.0.0.1', 'receiver.test');
+    configureService(`webhook:${new URL(target).host}`, { retries: 0, timeoutMs: 2_000 });
+    // Only the check knows this name: a second lookup by the HTTP client would fail
+    resolved.set('receiver.test', '127.0.0.1');
+
+    const delivery = await sendNotification(channelFor(receiver, { target }), renderTestNotification());
+
+    expect(delivery.status).toBe('delivered');
+    await waitFor(() => !!received(receiver, delivery.id), 'the delivery');
+  });
+});
+
+describe('receiver responses', () => {
+  let redirector: Server;
+  let redirectUrl: string;
+  let receiver: Receiver;
+
+  beforeAll(async () => {
+    receiver = await startReceiver();
+    redirector = createServer((_request, response) => {
+      response.writeHead(307, { Location: receiver.url });
+      response.end();
+    });
+    await new Promise<void>(resolve => redirector.listen(0, '127.0.0.1', resolve));
+    redirectUrl = `http://127.0.0.1:${(redirector.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => redirector.close(resolve));
+  });
+
+  it('does not follow redirects', async () => {
+    const host = new URL(redirectUrl).host;
+    configureService(`webhook:${host}`, { retries: 0 });
+
+    const delivery = await sendNotification(channelFor(receiver, { target: redirectUrl }), renderTestNotification());
+
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 1, lastError: `webhook:${host}: HTTP 307` });
+    expect(received(receiver, delivery.id)).toBeUndefined();
+  });
+
+  it('records only the status of a refused delivery', async () => {
+    const refusing = await startReceiver(410);
+
+    const delivery = await sendNotification(channelFor(refusing), renderTestNotification());
+
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 1, lastError: `webhook:${refusing.host}: HTTP 410` });
+  });
+});
+
+describe('delivery log and retries', () => {
+  let healthy: Receiver;
+  let failing: Receiver;
+
+  beforeAll(async () => {
+    healthy = await startReceiver();
+    failing = await startReceiver(503);
+  });
+
+  const retryMarkers = () => [...store.keys()].filter(key => key.startsWith('notification-retry-'));
+
+  it('logs a delivered notification', async () => {
+    const delivery = await sendNotification(channelFor(healthy), renderTestNotification());
+
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 1, lastError: undefined, nextAttemptAt: undefined });
+    expect(delivery.deliveredAt).toBeDefined();
+    expect(await listNotificationDeliveries('user-1')).toEqual([delivery]);
+    expect(retryMarkers()).toEqual([]);
+  });
+
+  it('keeps a failed delivery pending and retries it once it is due', async () => {
+    const channel = channelFor(failing);
+    await saveNotificationChannel(channel);
+    const now = Date.now();
+
+    const delivery = await sendNotification(channel, renderTestNotification(), [], now);
+    expect(delivery).toMatchObject({ status: 'pending', attempts: 1, lastError: `webhook:${failing.host}: HTTP 503` });
+    expect(Date.parse(delivery.nextAttemptAt!)).toBe(now + 5 * MINUTE);
+    expect(retryMarkers()).toHaveLength(1);
+
+    expect(await retryPendingDeliveries({ now: now + 4 * MINUTE })).toEqual({ retried: [], pending: 1 });
+
+    // The receiver recovers before the next tick
+    await saveNotificationChannel({ ...channel, target: healthy.url });
+    const { retried } = await retryPendingDeliveries({ now: now + 5 * MINUTE });
+
+    expect(retried).toEqual([expect.objectContaining({ id: delivery.id, status: 'delivered', attempts: 2, lastError: undefined })]);
+    expect(received(healthy, delivery.id)).toContain('✅ signature valid');
+    expect(retryMarkers()).toEqual([]);
+    expect(await listNotificationDeliveries('user-1')).toEqual([expect.objectContaining({ id: delivery.id, status: 'delivered' })]);
+  });
+
+  it('waits twice as long after each failure and gives up after four attempts', async () => {
+    const channel = channelFor(failing);
+    await saveNotificationChannel(channel);
+    let delivery = await sendNotification(channel, renderTestNotification());
+    const later = Date.now() + 24 * 60 * MINUTE;
+
+    const delays: number[] = [Date.parse(delivery.nextAttemptAt!) - Date.parse(delivery.updatedAt)];
+    for (let tick = 0; tick < 3; tick++) {
+      [delivery] = (await retryPendingDeliveries({ now: later })).retried;
+      if (delivery.nextAttemptAt) delays.push(Date.parse(delivery.nextAttemptAt) - Date.parse(delivery.updatedAt));
+    }
+
+    expect(delays).toEqual([5 * MINUTE, 10 * MINUTE, 20 * MINUTE]);
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 4, nextAttemptAt: undefined });
+    expect(retryMarkers()).toEqual([]);
+    expect(await retryPendingDeliveries({ now: later })).toEqual({ retried: [], pending: 0 });
+  });
+
+  it('fails a delivery whose channel was deleted', async () => {
+    const channel = channelFor(failing);
+    await saveNotificationChannel(channel);
+    const delivery = await sendNotification(channel, renderTestNotification());
+    store.delete(`notification-channel-${channel.userId}-${channel.id}`);
+
+    const { retried } = await retryPendingDeliveries({ now: Date.parse(delivery.nextAttemptAt!) });
+
+    expect(retried).toEqual([expect.objectContaining({ status: 'failed', attempts: 2, lastError: 'Channel was deleted' })]);
+  });
+});
+
+describe('email channels', () => {
+  const SITE = new URL('http://localhost:4321/dashboard');
+  const HOUR = 60 * MINUTE;
+
+  beforeEach(() => {
+    vi.stubEnv('SMTP_HOST', 'localhost');
+  });
+
+  async function emailChannel() {
+    const channel = await createNotificationChannel('user-1', { type: 'email', target: 'traveler@example.com' });
+    await sendChannelConfirmation(channel, SITE);
+    const token = sentEmails.at(-1)!.text.match(/token=([\w-]+)/)![1];
+    return { channel, token };
+  }
+
+  it('sends nothing to an address until it is confirmed', async () => {
+    const { channel } = await emailChannel();
+
+    const delivery = await sendNotification(channel, renderTestNotification());
+
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 1, lastError: 'Email address is not confirmed' });
+    expect(sentEmails.map(email => email.to)).toEqual(['traveler@example.com']);
+    expect(sentEmails[0].text).toContain('/api/notifications/confirm?token=');
+  });
+
+  it('confirms the address with the emailed link, once', async () => {
+    const { channel, token } = await emailChannel();
+
+    const confirmed = await confirmNotificationChannel(token);
+
+    expect(confirmed?.confirmedAt).toBeDefined();
+    expect(await getNotificationChannel('user-1', channel.id)).toEqual(confirmed);
+    expect(await confirmNotificationChannel(token)).toBeNull();
+
+    const send = vi.spyOn(emailSender, 'send').mockResolvedValue();
+    const delivery = await sendNotification(confirmed!, renderTestNotification());
+    expect(delivery).toMatchObject({ status: 'delivered' });
+    expect(send).toHaveBeenCalledWith(confirmed, expect.objectContaining({ event: 'test' }), delivery.id);
+  });
+
+  it('refuses an expired link', async () => {
+    const { channel, token } = await emailChannel();
+
+    expect(await confirmNotificationChannel(token, Date.now() + 25 * HOUR)).toBeNull();
+    expect((await getNotificationChannel('user-1', channel.id))?.confirmedAt).toBeUndefined();
+  });
+
+  it('refuses a link sent before the channel was pointed at another address', async () => {
+    const { channel, token } = await emailChannel();
+    await saveNotificationChannel({ ...channel, target: 'someone-else@example.com' });
+
+    expect(await confirmNotificationChannel(token)).toBeNull();
+  });
+});
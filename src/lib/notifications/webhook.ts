@@ -0,0 +1,157 @@
+import type { NotificationSender } from '../../types/travel';
+import { callService, UpstreamError, parseRetryAfter } from '../resilience';
+import { createHmac, randomBytes } from 'crypto';
+import type { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { request as httpRequest, type IncomingHttpHeaders, type OutgoingHttpHeaders } from 'http';
+import { request as httpsRequest } from 'https';
+import { isIP, type LookupFunction } from 'net';
+
+/**
+ * A new signing key for a webhook channel
+ */
+export function createWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Hex HMAC-SHA256 of `<timestamp>.<body>`. Receivers recompute it with the
+ * channel's secret and compare it with the X-Guardian-Signature header
+ * (after 'sha256='); the timestamp lets them reject old deliveries.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Whether an IP address is loopback, link-local, private or unspecified,
+ * i.e. one of this server's own or its network's
+ */
+function isPrivateAddress(address: string): boolean {
+  // IPv4 addresses mapped into IPv6, which URLs write in hex: ::ffff:7f00:1 is 127.0.0.1
+  const mapped = address.toLowerCase().match(/^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/);
+  if (mapped) {
+    const [, dotted, high, low] = mapped;
+    return isPrivateAddress(dotted || [high, low].flatMap(part => [parseInt(part, 16) >> 8, parseInt(part, 16) & 255]).join('.'));
+  }
+
+  if (isIP(address) === 4) {
+    const [a, b] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127
+      || (a === 100 && b >= 64 && b <= 127)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168);
+  }
+  const lower = address.toLowerCase();
+  return lower === '::' || lower === '::1' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower);
+}
+
+/**
+ * A URL's host name, or its IP address without the brackets URLs put round IPv6
+ */
+function hostOf(url: URL): string {
+  return url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+}
+
+/**
+ * Whether a URL's host names this server or its network. Private hosts are
+ * only allowed in development, for the local webhook receiver.
+ */
+function isPrivateHost(url: URL): boolean {
+  const host = hostOf(url);
+  return host === 'localhost' || host.endsWith('.localhost') || (isIP(host) !== 0 && isPrivateAddress(host));
+}
+
+function allowPrivateHosts(): boolean {
+  return Boolean(import.meta.env.DEV);
+}
+
+/**
+ * A lookup that answers with addresses already checked, so the connection
+ * goes where the check said even if the name has been pointed elsewhere since
+ */
+function pinnedLookup(addresses: LookupAddress[]): LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  };
+}
+
+/**
+ * POST a delivery, connecting only to `addresses`. Redirects aren't followed
+ * and the response body is discarded.
+ */
+function postDelivery(
+  url: URL,
+  addresses: LookupAddress[],
+  headers: OutgoingHttpHeaders,
+  body: string,
+  signal: AbortSignal
+): Promise<{ status: number; headers: IncomingHttpHeaders }> {
+  const request = url.protocol === 'https:' ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    const outgoing = request(url, { method: 'POST', headers, signal, lookup: pinnedLookup(addresses) }, response => {
+      response.resume();
+      resolve({ status: response.statusCode || 0, headers: response.headers });
+    });
+    outgoing.on('error', reject);
+    outgoing.end(body);
+  });
+}
+
+export const webhookSender: NotificationSender = {
+  type: 'webhook',
+
+  targetError(target) {
+    let url: URL;
+    try {
+      url = new URL(target);
+    } catch {
+      return 'target must be an http(s) URL';
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      return 'target must be an http(s) URL';
+    }
+    return isPrivateHost(url) && !allowPrivateHosts() ? 'target must be a public host' : null;
+  },
+
+  async send(channel, message, deliveryId) {
+    const body = JSON.stringify({ ...message.payload, deliveryId });
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'TravelGuardian-Webhook/1.0',
+      'X-Guardian-Event': message.event,
+      'X-Guardian-Delivery': deliveryId,
+      'X-Guardian-Timestamp': timestamp,
+    };
+    if (channel.secret) {
+      headers['X-Guardian-Signature'] = `sha256=${signWebhookPayload(channel.secret, timestamp, body)}`;
+    }
+
+    // Checked again on every send: a public name can be pointed at a private address after the channel is saved.
+    // The request then connects to the addresses checked, not to whatever the name resolves to by then.
+    const url = new URL(channel.target);
+    const host = hostOf(url);
+    const addresses: LookupAddress[] = isIP(host) ? [{ address: host, family: isIP(host) }] : await lookup(host, { all: true });
+    if (!allowPrivateHosts() && (isPrivateHost(url) || addresses.some(({ address }) => isPrivateAddress(address)))) {
+      throw new Error(`Webhook target ${url.host} is not a public host`);
+    }
+
+    // One circuit per receiving host, so one broken endpoint doesn't block the others
+    const service = `webhook:${url.host}`;
+    await callService(service, async signal => {
+      // Redirects aren't followed, so a receiver can't send deliveries on to another host.
+      // Only the status is kept: the body is the receiver's and ends up in the delivery log.
+      const response = await postDelivery(url, addresses, headers, body, signal);
+      if (response.status < 200 || response.status >= 300) {
+        const retryAfter = response.headers['retry-after'];
+        throw new UpstreamError(service, `HTTP ${response.status}`, response.status, parseRetryAfter(Array.isArray(retryAfter) ? retryAfter[0] : retryAfter));
+      }
+    });
+  },
+};
@@ -0,0 +1,25 @@
+import type { CategoryResult, UnparsedResult } from '../types/travel';
+
+/**
+ * How many offers per category are kept in the ranked list
+ */
+export const MAX_OFFERS_PER_CATEGORY = 5;
+
+/**
+ * Sort offers cheapest first and keep the top few
+ */
+export function rankOffers<T>(offers: T[], price: (offer: T) => number): T[] {
+  return [...offers].sort((a, b) => price(a) - price(b)).slice(0, MAX_OFFERS_PER_CATEGORY);
+}
+
+/**
+ * Join names from several offers, e.g. 'Delta / United', skipping repeats
+ */
+export function joinDistinct(values: Array<string | undefined>): string {
+  return [...new Set(values.filter((value): value is string => !!value))].join(' / ');
+}
+
+export function toCategoryResult<T extends { bookingUrl?: string }>(offers: T[], unparsed: UnparsedResult[], withinBudget: boolean): CategoryResult<T> {
+  const bookingUrls = [...new Set(offers.map(o => o.bookingUrl).filter((url): url is string => !!url))].slice(0, 3);
+  return { ...offers[0], withinBudget, bookingUrls, offers, unparsed };
+}
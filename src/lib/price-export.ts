@@ -0,0 +1,178 @@
+import type { PriceSnapshot, TripCategory, TripDetails } from '../types/travel';
+import { listTripCategories } from './categories';
+import { snapshotCategoryCost, snapshotUnitPrice, streamPriceHistory } from './price-history';
+import { DEFAULT_CURRENCY } from './currency';
+import { PassThrough, Readable } from 'stream';
+import ExcelJS from 'exceljs';
+
+export type ExportFormat = 'csv' | 'jsonl' | 'xlsx';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  jsonl: { contentType: 'application/x-ndjson; charset=utf-8', extension: 'jsonl' },
+  xlsx: { contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx' },
+};
+
+/**
+ * Which checks an export includes. Trip fields match case-insensitively;
+ * `destination` matches any stop of a multi-city trip.
+ */
+export interface ExportFilters {
+  from?: number; // ms since the epoch, inclusive
+  to?: number;
+  categories?: string[]; // Category ids; every registered category when empty
+  trip?: Partial<Pick<TripDetails, 'origin' | 'destination' | 'startDate' | 'endDate'>>;
+  tripId?: string; // Only checks of this stored trip
+}
+
+type ExportValue = string | number | boolean | null;
+type ExportRow = Record<string, ExportValue>;
+
+/**
+ * Columns before the price components
+ */
+const TRIP_COLUMNS = ['timestamp', 'origin', 'destination', 'start_date', 'end_date', 'currency', 'travelers', 'total_cost', 'within_total_budget'];
+
+/**
+ * Every export has the same columns whatever the checks priced: the trip
+ * columns, then a unit price and a whole-party cost column per category
+ */
+export function exportColumns(categories: TripCategory[]): string[] {
+  return [...TRIP_COLUMNS, ...categories.flatMap(category => [`${category.id}_unit_price`, `${category.id}_cost`])];
+}
+
+/**
+ * Categories to export: the ones asked for, or every registered category
+ */
+export function exportCategories(ids: string[] = []): TripCategory[] {
+  const categories = listTripCategories();
+  return ids.length > 0 ? categories.filter(category => ids.includes(category.id)) : categories;
+}
+
+function matchesTrip(snapshot: PriceSnapshot, trip: ExportFilters['trip'] = {}): boolean {
+  const same = (a: string | undefined, b: string) => (a || '').trim().toLowerCase() === b.trim().toLowerCase();
+  const details = snapshot.tripDetails || {};
+  const stops = details.legs?.length ? details.legs.map(leg => leg.destination) : [details.destination];
+
+  return (!trip.origin || same(details.origin, trip.origin))
+    && (!trip.destination || stops.some(stop => same(stop, trip.destination!)))
+    && (!trip.startDate || same(details.startDate, trip.startDate))
+    && (!trip.endDate || same(details.endDate, trip.endDate));
+}
+
+/**
+ * One check as a flat row, amounts in the check's own currency. null when
+ * the check priced none of the categories.
+ */
+function toRow(snapshot: PriceSnapshot, categories: TripCategory[]): ExportRow | null {
+  const details = snapshot.tripDetails || {};
+  const row: ExportRow = {
+    timestamp: snapshot.timestamp ? new Date(snapshot.timestamp).toISOString() : null,
+    origin: details.origin ?? null,
+    destination: details.legs?.length ? details.legs.map(leg => leg.destination).join(' > ') : details.destination ?? null,
+    start_date: details.startDate ?? null,
+    end_date: details.endDate ?? null,
+    currency: snapshot.currency || DEFAULT_CURRENCY,
+    travelers: snapshot.costs?.travelers ?? null,
+    total_cost: snapshot.totalCost ?? null,
+    within_total_budget: snapshot.withinTotalBudget ?? null,
+  };
+
+  let priced = false;
+  for (const category of categories) {
+    const unitPrice = snapshotUnitPrice(snapshot, category);
+    const cost = snapshotCategoryCost(snapshot, category.id);
+    row[`${category.id}_unit_price`] = typeof unitPrice === 'number' ? unitPrice : null;
+    row[`${category.id}_cost`] = typeof cost === 'number' ? cost : null;
+    priced ||= typeof unitPrice === 'number' || typeof cost === 'number';
+  }
+  return priced ? row : null;
+}
+
+async function* exportRows(bucketName: string, userId: string, filters: ExportFilters, categories: TripCategory[]): AsyncGenerator<ExportRow> {
+  const { from, to, tripId } = filters;
+  for await (const snapshot of streamPriceHistory(bucketName, userId, { from, to, tripId })) {
+    if (!matchesTrip(snapshot, filters.trip)) continue;
+    const row = toRow(snapshot, categories);
+    if (row) yield row;
+  }
+}
+
+/**
+ * Quote a CSV field when needed. Text that a spreadsheet would run as a
+ * formula is prefixed with a quote mark.
+ */
+function csvField(value: ExportValue): string {
+  if (value === null) return '';
+  if (typeof value !== 'string') return String(value);
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function* textLines(format: 'csv' | 'jsonl', rows: AsyncGenerator<ExportRow>, columns: string[]): AsyncGenerator<string> {
+  if (format === 'csv') {
+    yield `${columns.join(',')}\r\n`;
+  }
+  for await (const row of rows) {
+    yield format === 'csv'
+      ? `${columns.map(column => csvField(row[column])).join(',')}\r\n`
+      : `${JSON.stringify(row)}\n`;
+  }
+}
+
+function streamText(lines: AsyncGenerator<string>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const { value, done } = await lines.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(value));
+        }
+      } catch (error) {
+        console.error('❌ Price history export failed:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await lines.return(undefined);
+    },
+  });
+}
+
+function streamWorkbook(rows: AsyncGenerator<ExportRow>, columns: string[]): ReadableStream<Uint8Array> {
+  const output = new PassThrough();
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: true, useSharedStrings: false });
+  const sheet = workbook.addWorksheet('Price history', { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.columns = columns.map(column => ({ header: column, key: column, width: column === 'timestamp' ? 22 : 14 }));
+  sheet.getRow(1).font = { bold: true };
+
+  (async () => {
+    for await (const row of rows) {
+      // Real dates, so spreadsheets can sort and chart by them
+      sheet.addRow({ ...row, timestamp: row.timestamp ? new Date(row.timestamp as string) : null }).commit();
+    }
+    sheet.commit();
+    await workbook.commit();
+  })().catch(error => {
+    console.error('❌ Price history export failed:', error);
+    output.destroy(error);
+  });
+
+  return Readable.toWeb(output) as ReadableStream<Uint8Array>;
+}
+
+/**
+ * Stream a user's price checks as CSV, JSON Lines or an XLSX workbook,
+ * oldest first: one row per check with the columns of exportColumns(), or
+ * one JSON object per line with the same fields.
+ */
+export function exportPriceHistory(bucketName: string, userId: string, format: ExportFormat, filters: ExportFilters = {}): ReadableStream<Uint8Array> {
+  const categories = exportCategories(filters.categories);
+  const columns = exportColumns(categories);
+  const rows = exportRows(bucketName, userId, filters, categories);
+
+  return format === 'xlsx' ? streamWorkbook(rows, columns) : streamText(textLines(format, rows, columns));
+}
@@ -0,0 +1,225 @@
+import type { PriceSnapshot, PriceCheck, TripCategory, TripDetails } from '../types/travel';
+import { listSmartBucket, readFromSmartBucket, saveToSmartBucket } from './raindrop.js';
+import { convertAmount, DEFAULT_CURRENCY, type ExchangeRates } from './currency';
+
+/**
+ * A price check as stored in the SmartBucket, with the object's metadata
+ */
+export type StoredPriceSnapshot = PriceSnapshot & {
+  key: string;
+  lastModified: string;
+  size: number;
+};
+
+/**
+ * SmartBucket holding price history, and the monitors and alerts built on it
+ */
+export function getPriceHistoryBucket(): string {
+  const bucketName = process.env.RAINDROP_SMARTBUCKET_NAME || import.meta.env.RAINDROP_SMARTBUCKET_NAME;
+  if (!bucketName) {
+    throw new Error('RAINDROP_SMARTBUCKET_NAME environment variable not set');
+  }
+  return bucketName;
+}
+
+/**
+ * SmartBucket key of a user's price check: `price-<userId>-<time>`, or
+ * `price-<userId>-<tripId>-<time>` for a saved trip's, so one trip's checks
+ * can be listed by prefix
+ */
+export function priceSnapshotKey(userId: string, timestamp: number, tripId?: string): string {
+  return `price-${userId}-${tripId ? `${tripId}-` : ''}${timestamp}`;
+}
+
+// What follows a user's prefix in their checks' keys: an optional trip id (a UUID), then the time
+const SNAPSHOT_KEY_TAIL = /^(?:([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})-)?(\d+)$/;
+
+/**
+ * The time and trip of a price check listed under `prefix`, or null when the
+ * key belongs to another user whose id begins with this one's
+ */
+function parseSnapshotKey(key: string, prefix: string): { time: number; tripId?: string } | null {
+  const match = key.slice(prefix.length).match(SNAPSHOT_KEY_TAIL);
+  return match ? { time: Number(match[2]), tripId: match[1] } : null;
+}
+
+/**
+ * A user's stored price checks, or only one trip's, newest first
+ */
+async function listPriceSnapshots(bucketName: string, userId: string, tripId?: string): Promise<any[]> {
+  const userPrefix = `price-${userId}-`;
+  const objects = await listSmartBucket(bucketName, tripId ? `${userPrefix}${tripId}-` : userPrefix);
+  return objects
+    .map((obj: any) => ({ ...obj, ...parseSnapshotKey(obj.key, userPrefix) }))
+    .filter((obj: any) => Number.isFinite(obj.time))
+    .sort((a: any, b: any) => b.time - a.time);
+}
+
+/**
+ * Identifies a trip among a user's checks: the route and dates
+ */
+export function tripHistoryKey(tripDetails: Partial<TripDetails>): string {
+  const stops = tripDetails.legs?.length ? tripDetails.legs.map(leg => leg.destination) : [tripDetails.destination];
+  return [tripDetails.origin, ...stops, tripDetails.startDate, tripDetails.endDate]
+    .map(part => (part || '').trim().toLowerCase())
+    .join('|');
+}
+
+/**
+ * Whether a check belongs to the trip. A stored trip's checks are matched by
+ * its id, so those from before the trip was edited still count; others by
+ * route and dates.
+ */
+export function isTripCheck(snapshot: PriceSnapshot, tripDetails: Partial<TripDetails>, tripId?: string): boolean {
+  return tripId ? snapshot.tripId === tripId : tripHistoryKey(snapshot.tripDetails || {}) === tripHistoryKey(tripDetails);
+}
+
+/**
+ * How older snapshots named each category's cost
+ */
+const LEGACY_COST_KEYS: Record<string, 'flights' | 'hotels' | 'cars'> = { flight: 'flights', hotel: 'hotels', car: 'cars' };
+
+/**
+ * Whole-party cost of a category in the snapshot's currency, or undefined
+ * when the snapshot didn't record one
+ */
+export function snapshotCategoryCost(snapshot: PriceSnapshot, categoryId: string): number | undefined {
+  const legacyKey = LEGACY_COST_KEYS[categoryId];
+  return snapshot.costs?.byCategory?.[categoryId] ?? (legacyKey ? snapshot.costs?.[legacyKey] : undefined);
+}
+
+/**
+ * A category's best unit price in the snapshot's currency, or undefined
+ * when the snapshot didn't price it
+ */
+export function snapshotUnitPrice(snapshot: PriceSnapshot, category: TripCategory): number | undefined {
+  const legacyOffers: Record<string, Record<string, number> | undefined> = { flight: snapshot.flight, hotel: snapshot.hotel, car: snapshot.car };
+  return (snapshot.categories?.[category.id] ?? legacyOffers[category.id])?.[category.priceKey];
+}
+
+/**
+ * A category's best unit price, or the total when no category is given,
+ * in `currency`. null when the snapshot doesn't have it.
+ */
+export function snapshotValue(snapshot: PriceSnapshot, category: TripCategory | undefined, currency: string, rates: ExchangeRates): number | null {
+  const amount = category ? snapshotUnitPrice(snapshot, category) : snapshot.totalCost;
+  if (typeof amount !== 'number' || !Number.isFinite(amount)) return null;
+  return convertAmount(amount, snapshot.currency || DEFAULT_CURRENCY, currency, rates);
+}
+
+/**
+ * Store a price check in the user's history. The dashboard's checks and
+ * scheduled monitoring both write here, so both show up in one history.
+ */
+export async function savePriceSnapshot(bucketName: string, priceKey: string, tripDetails: TripDetails, priceCheck: PriceCheck, tripId?: string): Promise<void> {
+  await saveToSmartBucket(bucketName, priceKey, {
+    ...priceCheck,
+    tripId,
+    tripDetails: {
+      origin: tripDetails.origin,
+      destination: tripDetails.destination,
+      startDate: tripDetails.startDate,
+      endDate: tripDetails.endDate,
+      legs: tripDetails.legs,
+      components: tripDetails.components,
+    },
+  });
+}
+
+/**
+ * Read one stored price check with its object metadata, or null when it
+ * can't be read
+ */
+async function readPriceSnapshot(bucketName: string, obj: any): Promise<StoredPriceSnapshot | null> {
+  try {
+    const data = await readFromSmartBucket(bucketName, obj.key);
+    if (!data) {
+      return null;
+    }
+
+    return {
+      key: obj.key,
+      timestamp: data.timestamp || obj.lastModified,
+      lastModified: obj.lastModified,
+      size: obj.size,
+      ...data,
+    };
+  } catch (err) {
+    console.error(`❌ Error fetching price snapshot ${obj.key}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Price checks read from the SmartBucket at a time
+ */
+const STREAM_BATCH_SIZE = 20;
+
+/**
+ * Read listed price checks in order, a batch at a time, so long histories
+ * are never requested all at once. Checks that fail to load are skipped.
+ */
+async function* readPriceSnapshots(bucketName: string, objects: any[]): AsyncGenerator<StoredPriceSnapshot> {
+  for (let i = 0; i < objects.length; i += STREAM_BATCH_SIZE) {
+    const batch = await Promise.all(objects.slice(i, i + STREAM_BATCH_SIZE).map((obj: any) => readPriceSnapshot(bucketName, obj)));
+    for (const snapshot of batch) {
+      if (snapshot) yield snapshot;
+    }
+  }
+}
+
+/**
+ * Load a user's most recent price checks from the SmartBucket, newest first,
+ * optionally only those of one stored trip. Snapshots that fail to load are
+ * skipped; listing errors are thrown.
+ */
+export async function loadPriceHistory(bucketName: string, userId: string, limit: number, tripId?: string): Promise<StoredPriceSnapshot[]> {
+  const history: StoredPriceSnapshot[] = [];
+  for await (const snapshot of streamPriceHistory(bucketName, userId, { tripId, limit, newestFirst: true })) {
+    history.push(snapshot);
+  }
+
+  console.log(`✅ Retrieved ${history.length} price snapshots for ${tripId ? `trip ${tripId}` : `user ${userId}`}`);
+  return history;
+}
+
+/**
+ * Load the most recent price checks of each of a user's trips, newest first,
+ * from a single listing of the user's checks
+ */
+export async function loadTripPriceHistories(bucketName: string, userId: string, tripIds: string[], limit: number): Promise<Map<string, StoredPriceSnapshot[]>> {
+  const counts = new Map(tripIds.map(tripId => [tripId, 0]));
+  const objects = (await listPriceSnapshots(bucketName, userId)).filter((obj: any) => {
+    const count = obj.tripId ? counts.get(obj.tripId) : undefined;
+    if (count === undefined || count >= limit) return false;
+    counts.set(obj.tripId, count + 1);
+    return true;
+  });
+
+  const histories = new Map<string, StoredPriceSnapshot[]>(tripIds.map(tripId => [tripId, []]));
+  for await (const snapshot of readPriceSnapshots(bucketName, objects)) {
+    histories.get(snapshot.tripId!)?.push(snapshot);
+  }
+  return histories;
+}
+
+/**
+ * Stream a user's price checks, oldest first (or newest first), optionally
+ * only one trip's, those taken between `from` and `to` (ms since the epoch,
+ * inclusive) or the most recent `limit`. Checks are read a batch at a time,
+ * so long histories are never held in memory at once.
+ */
+export async function* streamPriceHistory(
+  bucketName: string,
+  userId: string,
+  range: { from?: number; to?: number; tripId?: string; limit?: number; newestFirst?: boolean } = {}
+): AsyncGenerator<StoredPriceSnapshot> {
+  const { from = 0, to = Infinity, tripId, limit = Infinity, newestFirst = false } = range;
+
+  // Listed newest first
+  const objects = (await listPriceSnapshots(bucketName, userId, tripId))
+    .filter((obj: any) => obj.time >= from && obj.time <= to)
+    .slice(0, limit);
+
+  yield* readPriceSnapshots(bucketName, newestFirst ? objects : objects.reverse());
+}
@@ -0,0 +1,144 @@
+import type { PriceBucket, PriceBucketSize, PriceSnapshot, PriceStatistics, PriceSummary, TripCategory, TripDetails } from '../types/travel';
+import { enabledCategories } from './categories';
+import { isTripCheck, snapshotValue } from './price-history';
+import { loadExchangeRates, roundForCurrency, DEFAULT_CURRENCY } from './currency';
+
+/**
+ * Price checks loaded for statistics, by default and at most
+ */
+export const DEFAULT_STATS_OBSERVATIONS = 500;
+export const MAX_STATS_OBSERVATIONS = 2000;
+
+interface Check {
+  snapshot: PriceSnapshot;
+  time: number;
+}
+
+/**
+ * The `p`th percentile (0-100) of sorted values, interpolating between the
+ * nearest ranks
+ */
+function percentile(sorted: number[], p: number): number {
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function summarize(
+  id: string,
+  label: string,
+  series: { time: number; value: number }[],
+  round: (amount: number) => number
+): PriceSummary | null {
+  if (series.length === 0) return null;
+
+  const sorted = series.map(point => point.value).sort((a, b) => a - b);
+  // Checks are oldest first, so ties keep the first time the best price was seen
+  const best = series.reduce((lowest, point) => (point.value < lowest.value ? point : lowest));
+
+  return {
+    id,
+    label,
+    observations: series.length,
+    min: round(sorted[0]),
+    max: round(sorted[sorted.length - 1]),
+    mean: round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+    median: round(percentile(sorted, 50)),
+    percentiles: {
+      p10: round(percentile(sorted, 10)),
+      p25: round(percentile(sorted, 25)),
+      p75: round(percentile(sorted, 75)),
+      p90: round(percentile(sorted, 90)),
+    },
+    best: { value: round(best.value), timestamp: new Date(best.time).toISOString() },
+    latest: round(series[series.length - 1].value),
+  };
+}
+
+/**
+ * Start of the UTC hour or day a time falls in
+ */
+function bucketStart(time: number, size: PriceBucketSize): number {
+  const date = new Date(time);
+  if (size === 'day') {
+    date.setUTCHours(0, 0, 0, 0);
+  } else {
+    date.setUTCMinutes(0, 0, 0);
+  }
+  return date.getTime();
+}
+
+/**
+ * Min, max, mean and percentile bands of a trip's prices, per category and
+ * for the total, with hourly and daily series and the best price seen.
+ * Only checks of the same trip in `history` count: the stored trip's when
+ * `tripId` is given, otherwise those with the same route and dates. Earlier
+ * checks in other currencies are converted to the trip currency.
+ */
+export async function priceStatistics(tripDetails: TripDetails, history: PriceSnapshot[], tripId?: string, now = Date.now()): Promise<PriceStatistics> {
+  const currency = tripDetails.currency || DEFAULT_CURRENCY;
+  const round = (amount: number) => roundForCurrency(amount, currency);
+  const rates = await loadExchangeRates();
+
+  const checks: Check[] = history
+    .filter(snapshot => isTripCheck(snapshot, tripDetails, tripId))
+    .map(snapshot => ({ snapshot, time: new Date(snapshot.timestamp || 0).getTime() }))
+    .filter(check => check.time > 0)
+    .sort((a, b) => a.time - b.time);
+
+  const seriesOf = (category: TripCategory | undefined) => checks
+    .map(({ snapshot, time }) => ({ time, value: snapshotValue(snapshot, category, currency, rates) }))
+    .filter((point): point is { time: number; value: number } => point.value !== null);
+
+  const categories = enabledCategories(tripDetails);
+  const categorySeries = categories.map(category => ({ category, series: seriesOf(category) }));
+  const totalSeries = seriesOf(undefined);
+
+  const bucketize = (size: PriceBucketSize): PriceBucket[] => {
+    const buckets = new Map<number, Check[]>();
+    for (const check of checks) {
+      const start = bucketStart(check.time, size);
+      buckets.set(start, [...(buckets.get(start) || []), check]);
+    }
+
+    return [...buckets.entries()].flatMap(([start, bucketChecks]) => {
+      const totals = bucketChecks
+        .map(({ snapshot }) => snapshotValue(snapshot, undefined, currency, rates))
+        .filter((value): value is number => value !== null);
+      if (totals.length === 0) return [];
+
+      const bucketCategories: Record<string, number> = {};
+      for (const category of categories) {
+        const values = bucketChecks
+          .map(({ snapshot }) => snapshotValue(snapshot, category, currency, rates))
+          .filter((value): value is number => value !== null);
+        if (values.length > 0) bucketCategories[category.id] = round(Math.min(...values));
+      }
+
+      return [{
+        start: new Date(start).toISOString(),
+        observations: totals.length,
+        min: round(Math.min(...totals)),
+        max: round(Math.max(...totals)),
+        mean: round(totals.reduce((sum, value) => sum + value, 0) / totals.length),
+        last: round(totals[totals.length - 1]),
+        withinBudget: bucketChecks[bucketChecks.length - 1].snapshot.withinTotalBudget ?? false,
+        categories: bucketCategories,
+      }];
+    });
+  };
+
+  return {
+    currency,
+    generatedAt: new Date(now).toISOString(),
+    observations: checks.length,
+    from: checks.length > 0 ? new Date(checks[0].time).toISOString() : null,
+    to: checks.length > 0 ? new Date(checks[checks.length - 1].time).toISOString() : null,
+    total: summarize('total', 'Total', totalSeries, round),
+    categories: categorySeries
+      .map(({ category, series }) => summarize(category.id, `${category.icon} ${category.label}`, series, round))
+      .filter((summary): summary is PriceSummary => summary !== null),
+    series: { hourly: bucketize('hour'), daily: bucketize('day') },
+  };
+}
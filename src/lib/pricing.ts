@@ -0,0 +1,705 @@
+import type {
+  PriceProvider,
+  TripDetails,
+  PriceCheck,
+  CategoryResult,
+  CategoryResults,
+  OfferCombination,
+  OfferBase,
+  OfferSources,
+  ProviderResult,
+  UnparsedResult,
+  SimulationSettings,
+  TripCategory,
+  TripLeg,
+  LegPriceCheck,
+  PartySize,
+  PartyCosts,
+} from '../types/travel';
+import { getPriceProvider, getFallbackProvider } from './providers';
+import { enabledCategories, isCategoryEnabled, isCategoryEnabledForLeg, categoryBudget, toCategoryInfo } from './categories';
+import { joinDistinct, toCategoryResult } from './offers';
+import { loadExchangeRates, convertAmount, roundForCurrency, DEFAULT_CURRENCY, type ExchangeRates } from './currency';
+import { isLowConfidence, derivedProvenance } from './confidence';
+import { applyPreferences, combineCompliance } from './compliance';
+import { degradedServices } from './resilience';
+import { createResultCache, normaliseCacheKey, combineCacheInfo, type ResultCache } from './cache';
+
+/**
+ * How long provider searches are reused (PRICE_CACHE_TTL_SECONDS, 0 turns
+ * the cache off), and how much longer they may be served while a refresh
+ * runs (PRICE_CACHE_STALE_SECONDS)
+ */
+const DEFAULT_CACHE_TTL_SECONDS = 300;
+const DEFAULT_CACHE_STALE_SECONDS = 600;
+
+const DEFAULT_SIMULATION = (): SimulationSettings => ({
+  enabled: false,
+  curve: 'random',
+  checkNumber: 0,
+  date: new Date().toISOString().split('T')[0],
+});
+
+/**
+ * Convert every offer's price into the trip currency, keeping the quoted
+ * amount alongside. Offers in a currency without a known rate are reported
+ * as unparsed.
+ */
+function normaliseCurrency<T extends OfferBase>(
+  result: ProviderResult<T>,
+  priceKey: keyof T,
+  currency: string,
+  rates: ExchangeRates
+): ProviderResult<T> {
+  const offers: T[] = [];
+  const unparsed = [...result.unparsed];
+
+  for (const offer of result.offers) {
+    const quotedCurrency = offer.currency || DEFAULT_CURRENCY;
+    const quotedPrice = offer[priceKey] as number;
+    const converted = convertAmount(quotedPrice, quotedCurrency, currency, rates);
+
+    if (converted === null) {
+      unparsed.push({
+        source: offer.source,
+        url: offer.bookingUrl,
+        snippet: offer.snippet || '',
+        reason: `no exchange rate for ${quotedCurrency}`,
+      });
+      continue;
+    }
+
+    offers.push(quotedCurrency === currency
+      ? { ...offer, currency }
+      : { ...offer, [priceKey]: converted, currency, originalPrice: quotedPrice, originalCurrency: quotedCurrency });
+  }
+
+  return { offers, unparsed };
+}
+
+/**
+ * Collect offers from the provider, falling back to simulation when it has none.
+ * Unparsed results from the primary provider are kept either way.
+ */
+async function collectOffers<T>(
+  category: string,
+  primary: () => Promise<ProviderResult<T>>,
+  fallback: () => Promise<ProviderResult<T>>,
+  normalise: (result: ProviderResult<T>) => ProviderResult<T>
+): Promise<ProviderResult<T>> {
+  let unparsed: UnparsedResult[] = [];
+
+  try {
+    const result = normalise(await primary());
+    if (result.offers.length > 0) {
+      return result;
+    }
+    unparsed = result.unparsed;
+  } catch (error) {
+    console.error(`❌ Price provider error for ${category}:`, error);
+  }
+
+  console.log(`⚠️ Using fallback ${category} pricing`);
+  const result = normalise(await fallback());
+  return { offers: result.offers, unparsed: [...unparsed, ...result.unparsed] };
+}
+
+/**
+ * Offers from the provider alone, without falling back: an empty result on error
+ */
+async function searchWithoutFallback<T>(
+  category: string,
+  search: () => Promise<ProviderResult<T>>,
+  normalise: (result: ProviderResult<T>) => ProviderResult<T>
+): Promise<ProviderResult<T>> {
+  try {
+    return normalise(await search());
+  } catch (error) {
+    console.error(`❌ Price provider error for ${category}:`, error);
+    return { offers: [], unparsed: [] };
+  }
+}
+
+/**
+ * Offer sources for one price check, converting every price to the trip currency
+ */
+function createOfferSources(provider: PriceProvider, fallback: PriceProvider, currency: string, rates: ExchangeRates): OfferSources {
+  const normalise = <T extends OfferBase>(priceKey: keyof T) =>
+    (result: ProviderResult<T>) => normaliseCurrency(result, priceKey, currency, rates);
+
+  return {
+    provider,
+    fallback,
+    currency,
+    collect: (label, search, priceKey) =>
+      collectOffers(label, () => search(provider), () => search(fallback), normalise(priceKey)),
+    searchOnly: (label, search, priceKey) =>
+      searchWithoutFallback(label, () => search(provider), normalise(priceKey)),
+  };
+}
+
+/**
+ * Travelers and rooms for the trip, defaulting to one adult in one room
+ */
+export function resolveParty(tripDetails: TripDetails): PartySize {
+  const count = (value: number | undefined, fallback: number, min: number) =>
+    Number.isFinite(value) ? Math.max(min, Math.floor(value as number)) : fallback;
+
+  return {
+    adults: count(tripDetails.adults, 1, 1),
+    children: count(tripDetails.children, 0, 0),
+    rooms: count(tripDetails.rooms, 1, 1),
+  };
+}
+
+function travelerCount(party: PartySize): number {
+  return party.adults + party.children;
+}
+
+/**
+ * How many of a category's pricing units the party buys over `nights`:
+ * a ticket each, every room for each night, or one per day
+ */
+export function unitCount(category: TripCategory, party: PartySize, nights: number): number {
+  switch (category.unit) {
+    case 'traveler':
+      return travelerCount(party);
+    case 'room-night':
+      return party.rooms * nights;
+    case 'day':
+      return nights;
+  }
+}
+
+/**
+ * The whole party's total budget. With a 'per-person' basis the trip's
+ * budgets are multiplied by the number of travelers first.
+ */
+function partyTotalBudget(tripDetails: TripDetails, party: PartySize): number {
+  const scale = tripDetails.budgetBasis === 'per-person' ? travelerCount(party) : 1;
+  return tripDetails.totalBudget * scale;
+}
+
+/**
+ * A category's budget in the unit its offers are priced in: per seat, per
+ * room per night or per day. Infinity when the trip sets no budget for it.
+ */
+function unitBudget(category: TripCategory, tripDetails: TripDetails, party: PartySize): number {
+  const budget = categoryBudget(category, tripDetails);
+  if (budget === null) return Infinity;
+
+  const travelers = travelerCount(party);
+  const partyBudget = tripDetails.budgetBasis === 'per-person' ? budget * travelers : budget;
+
+  switch (category.unit) {
+    case 'traveler':
+      return partyBudget / travelers;
+    case 'room-night':
+      return partyBudget / party.rooms;
+    case 'day':
+      return partyBudget;
+  }
+}
+
+/**
+ * Whole-party totals alongside per-person figures
+ */
+function toPartyCosts(party: PartySize, totalBudget: number, byCategory: Record<string, number>, currency: string): PartyCosts {
+  const travelers = travelerCount(party);
+  const total = Object.values(byCategory).reduce((sum, cost) => sum + cost, 0);
+
+  return {
+    travelers,
+    byCategory: Object.fromEntries(Object.entries(byCategory).map(([id, cost]) => [id, roundForCurrency(cost, currency)])),
+    totalBudget: roundForCurrency(totalBudget, currency),
+    costPerPerson: roundForCurrency(total / travelers, currency),
+    budgetPerPerson: roundForCurrency(totalBudget / travelers, currency),
+  };
+}
+
+/**
+ * Ranked unit prices of one category, with how many units the party buys
+ * and the category's budget per unit
+ */
+export interface CombinationOption {
+  id: string;
+  prices: number[];
+  units: number;
+  unitBudget: number;
+  eligible?: boolean[]; // Offers that may be picked (default: all)
+}
+
+/**
+ * Find the cheapest pick of one offer per category where every offer fits
+ * its category budget and the total fits the trip budget, for the whole
+ * party. Costs add up independently, so the cheapest in-budget offer of
+ * each category gives the cheapest combination.
+ */
+export function findCheapestCombination(options: CombinationOption[], totalBudget: number): OfferCombination | null {
+  const indexes: Record<string, number> = {};
+  let totalCost = 0;
+
+  for (const option of options) {
+    let cheapest = -1;
+    option.prices.forEach((price, index) => {
+      if (option.eligible?.[index] !== false && price <= option.unitBudget && (cheapest === -1 || price < option.prices[cheapest])) {
+        cheapest = index;
+      }
+    });
+    if (cheapest === -1) return null;
+
+    indexes[option.id] = cheapest;
+    totalCost += option.prices[cheapest] * option.units;
+  }
+
+  totalCost = Math.round(totalCost * 100) / 100;
+  return totalCost <= totalBudget ? { indexes, totalCost } : null;
+}
+
+/**
+ * Trip, offer sources, party and total budget shared by every search in one price check
+ */
+interface PricingContext {
+  tripDetails: TripDetails;
+  sources: OfferSources;
+  party: PartySize;
+  totalBudget: number;
+  acceptGuesses: boolean; // Explicit simulation mode: every price is a guess by design
+  useCache: boolean; // Off in simulation mode, where every check must produce new prices
+}
+
+let searchCache: ResultCache<ProviderResult<any>> | null = null;
+
+function envSeconds(name: string, fallback: number): number {
+  const value = Number(process.env[name] || import.meta.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Cache of category searches shared by every price check on this server
+ * instance. Searches that found nothing are not kept, nor simulated
+ * fallback prices, so a provider that recovers is searched again at once.
+ */
+function getSearchCache(): ResultCache<ProviderResult<any>> {
+  if (!searchCache) {
+    searchCache = createResultCache({
+      ttlSeconds: envSeconds('PRICE_CACHE_TTL_SECONDS', DEFAULT_CACHE_TTL_SECONDS),
+      staleSeconds: envSeconds('PRICE_CACHE_STALE_SECONDS', DEFAULT_CACHE_STALE_SECONDS),
+      shouldCache: result => result.offers.some(offer => offer.provenance?.method !== 'simulated'),
+    });
+  }
+  return searchCache;
+}
+
+/**
+ * Empty the search cache, e.g. after changing providers or fixtures
+ */
+export function clearSearchCache(): void {
+  searchCache?.clear();
+}
+
+/**
+ * Everything that changes what a category search returns. Budgets and
+ * preferenceMatching are left out: they only change how offers are judged.
+ */
+function searchCacheKey(category: TripCategory, request: object, context: PricingContext): string {
+  const { tripDetails, party, sources } = context;
+  return normaliseCacheKey({
+    category: category.id,
+    provider: sources.provider.name,
+    currency: sources.currency,
+    ...request,
+    party,
+    preferences: [tripDetails.flightPreferences, tripDetails.hotelPreferences, tripDetails.carRentalPreferences],
+  });
+}
+
+/**
+ * One category priced for part of the trip: a hop, a stop or the whole
+ * trip, over `nights`
+ */
+interface PricedCategory {
+  category: TripCategory;
+  result: CategoryResult<any>;
+  nights: number;
+}
+
+export function daysBetween(startDate: string, endDate: string): number {
+  return Math.ceil((new Date(endDate).getTime() - new Date(startDate).getTime()) / (1000 * 60 * 60 * 24));
+}
+
+/**
+ * The legs of a trip. A single-destination trip is one leg.
+ */
+export function resolveLegs(tripDetails: TripDetails): TripLeg[] {
+  if (tripDetails.legs && tripDetails.legs.length > 0) {
+    return tripDetails.legs;
+  }
+  return [{ destination: tripDetails.destination, startDate: tripDetails.startDate, endDate: tripDetails.endDate }];
+}
+
+/**
+ * Search one category and rank its offers, checking the budget against the cheapest
+ */
+async function priceCategory(
+  category: TripCategory,
+  request: { origin: string; destination: string; startDate: string; endDate: string; returnDate?: string },
+  context: PricingContext
+): Promise<CategoryResult<any>> {
+  const { tripDetails, party } = context;
+  const search = () => category.search({ ...request, party, tripDetails }, context.sources);
+  const { value: result, cache } = context.useCache
+    ? await getSearchCache().get(searchCacheKey(category, request, context), search)
+    : { value: await search(), cache: undefined };
+  if (cache?.hit) {
+    console.log(`♻️ ${category.label} for ${request.destination} from cache (${cache.ageSeconds}s old${cache.stale ? ', refreshing' : ''})`);
+  }
+
+  const offers = applyPreferences(category, result.offers, tripDetails);
+
+  if (offers.length === 0) {
+    const matching = result.offers.length > 0 ? ' matching your preferences' : '';
+    throw new Error(`No ${category.label.toLowerCase()} offers${matching} found for ${request.destination}`);
+  }
+
+  const priced = toCategoryResult(offers, result.unparsed, offers[0][category.priceKey] <= unitBudget(category, tripDetails, party));
+  return cache ? { ...priced, cache } : priced;
+}
+
+/**
+ * What the whole party pays for everything priced
+ */
+function costsByCategory(priced: PricedCategory[], party: PartySize): Record<string, number> {
+  const costs: Record<string, number> = {};
+  for (const { category, result, nights } of priced) {
+    costs[category.id] = (costs[category.id] || 0) + result[category.priceKey] * unitCount(category, party, nights);
+  }
+  return costs;
+}
+
+function sumCosts(costs: Record<string, number>): number {
+  return Object.values(costs).reduce((sum, cost) => sum + cost, 0);
+}
+
+/**
+ * True when an offer (or any part of a combined offer) came from the given provider
+ */
+function pricedBy(offer: { source: string } | null | undefined, providerName: string): boolean {
+  return !!offer && offer.source.split(' / ').includes(providerName);
+}
+
+/**
+ * Whether an offer is trustworthy enough to count towards a deal
+ */
+function isTrusted(offer: OfferBase, context: PricingContext): boolean {
+  return context.acceptGuesses || !isLowConfidence(offer.confidence);
+}
+
+/**
+ * A check is as trustworthy as its least trustworthy best offer. Low
+ * confidence means no deal is reported, whatever the total.
+ */
+function checkConfidence(priced: PricedCategory[], context: PricingContext): Pick<PriceCheck, 'confidence' | 'lowConfidence'> {
+  const confidence = priced.length > 0 ? Math.min(...priced.map(({ result }) => result.confidence)) : 1;
+  return { confidence, lowConfidence: priced.some(({ result }) => !isTrusted(result, context)) };
+}
+
+function logConfidence({ confidence, lowConfidence }: Pick<PriceCheck, 'confidence' | 'lowConfidence'>): void {
+  console.log(`🎯 Confidence: ${Math.round(confidence * 100)}%${lowConfidence ? ' (low: prices unconfirmed, no deal reported)' : ''}`);
+}
+
+/**
+ * Unit price with its unit, for logs and messages
+ */
+export function describeUnitPrice(category: TripCategory, price: number, currency: string): string {
+  const suffix = { traveler: '/traveler', 'room-night': '/room/night', day: '/day' }[category.unit];
+  return `${currency} ${roundForCurrency(price, currency)}${suffix}`;
+}
+
+/**
+ * Default way to combine the hops of a transport category: prices are
+ * added up and names joined
+ */
+function chainOffers(category: TripCategory, hops: CategoryResult<any>[], returnHop: CategoryResult<any> | null, currency: string): any {
+  const all = returnHop ? [...hops, returnHop] : hops;
+  return {
+    [category.priceKey]: roundForCurrency(all.reduce((sum, hop) => sum + hop[category.priceKey], 0), currency),
+    [category.nameKey]: joinDistinct(all.map(hop => hop[category.nameKey])),
+    currency,
+    source: joinDistinct(all.map(hop => hop.source)),
+    ...derivedProvenance(all),
+    vendor: joinDistinct(all.map(hop => hop.vendor)),
+    bookingUrl: all[0].bookingUrl,
+  };
+}
+
+/**
+ * Summarise what a category books at every stop as one offer. Per-traveler
+ * prices are added up; nightly and daily prices are averaged over the
+ * nights booked.
+ */
+function summariseStays(category: TripCategory, stays: PricedCategory[], budget: number, currency: string): CategoryResult<any> {
+  const nights = stays.reduce((sum, stay) => sum + stay.nights, 0);
+  const total = stays.reduce((sum, stay) => sum + stay.result[category.priceKey] * stay.nights, 0);
+  const perTraveler = category.unit === 'traveler';
+
+  const price = perTraveler
+    ? stays.reduce((sum, stay) => sum + stay.result[category.priceKey], 0)
+    : nights > 0 ? total / nights : 0;
+
+  const offer = {
+    [category.priceKey]: roundForCurrency(price, currency),
+    [category.nameKey]: joinDistinct(stays.map(stay => stay.result[category.nameKey])),
+    currency,
+    source: joinDistinct(stays.map(stay => stay.result.source)),
+    ...derivedProvenance(stays.map(stay => stay.result)),
+    vendor: joinDistinct(stays.map(stay => stay.result.vendor)),
+    bookingUrl: stays[0].result.bookingUrl,
+    compliance: combineCompliance(stays.map(stay => stay.result.compliance)),
+  };
+
+  const withinBudget = perTraveler ? price <= budget : stays.every(stay => stay.result.withinBudget);
+  return {
+    ...toCategoryResult([offer], stays.flatMap(stay => stay.result.unparsed), withinBudget),
+    cache: combineCacheInfo(stays.map(stay => stay.result.cache)),
+  };
+}
+
+/**
+ * Price one leg of a multi-city itinerary: transport in from the previous
+ * stop, plus whatever the leg books there
+ */
+async function checkLegPrices(
+  leg: TripLeg,
+  from: string,
+  categories: TripCategory[],
+  context: PricingContext
+): Promise<{ check: LegPriceCheck; priced: PricedCategory[] }> {
+  const { tripDetails, party, sources } = context;
+  const nights = daysBetween(leg.startDate, leg.endDate);
+  const legCategories = categories.filter(category => category.scope !== 'trip' && isCategoryEnabledForLeg(category, tripDetails, leg));
+
+  const results = await Promise.all(legCategories.map(category => priceCategory(category, {
+    origin: from,
+    destination: leg.destination,
+    startDate: leg.startDate,
+    endDate: leg.endDate,
+  }, context)));
+
+  const priced = legCategories.map((category, i) => ({ category, result: results[i], nights }));
+  const totalCost = roundForCurrency(sumCosts(costsByCategory(priced, party)), sources.currency);
+
+  return {
+    check: {
+      destination: leg.destination,
+      startDate: leg.startDate,
+      endDate: leg.endDate,
+      nights,
+      categories: Object.fromEntries(priced.map(({ category, result }) => [category.id, result])),
+      totalCost,
+    },
+    priced,
+  };
+}
+
+/**
+ * Price a multi-city itinerary leg by leg, plus transport home unless the
+ * trip is one-way and anything bought once for the whole trip. Top-level
+ * categories summarise every leg.
+ */
+async function checkItineraryPrices(
+  legs: TripLeg[],
+  categories: TripCategory[],
+  context: PricingContext
+): Promise<Omit<PriceCheck, 'currency' | 'exchangeRatesUpdatedAt' | 'timestamp' | 'provider' | 'simulation' | 'servedFromCache' | 'degraded'>> {
+  const { tripDetails, party, totalBudget, sources } = context;
+  const { currency } = sources;
+  const lastLeg = legs[legs.length - 1];
+  const tripDays = daysBetween(legs[0].startDate, lastLeg.endDate);
+
+  console.log(`\n🗺️  Checking prices for ${legs.length}-city trip from ${tripDetails.origin}: ${legs.map(l => l.destination).join(' → ')}`);
+
+  // Home by whatever transport the trip as a whole uses
+  const returnCategories = tripDetails.tripType === 'one-way'
+    ? []
+    : categories.filter(category => category.scope === 'transport' && isCategoryEnabled(category, tripDetails));
+  const tripCategories = categories.filter(category => category.scope === 'trip');
+
+  const [legResults, returnResults, tripResults] = await Promise.all([
+    Promise.all(legs.map((leg, i) => checkLegPrices(leg, i === 0 ? tripDetails.origin : legs[i - 1].destination, categories, context))),
+    Promise.all(returnCategories.map(category => priceCategory(category, {
+      origin: lastLeg.destination,
+      destination: tripDetails.origin,
+      startDate: lastLeg.endDate,
+      endDate: lastLeg.endDate,
+    }, context))),
+    Promise.all(tripCategories.map(category => priceCategory(category, {
+      origin: tripDetails.origin,
+      destination: legs.map(leg => leg.destination).join(', '),
+      startDate: legs[0].startDate,
+      endDate: lastLeg.endDate,
+    }, context))),
+  ]);
+
+  const returnPriced: PricedCategory[] = returnCategories.map((category, i) => ({ category, result: returnResults[i], nights: 0 }));
+  const tripPriced: PricedCategory[] = tripCategories.map((category, i) => ({ category, result: tripResults[i], nights: tripDays }));
+  const priced = [...legResults.flatMap(leg => leg.priced), ...returnPriced, ...tripPriced];
+
+  // Summarise each category across the legs it was priced for
+  const summaries: CategoryResults = {};
+  for (const category of categories) {
+    const budget = unitBudget(category, tripDetails, party);
+    const stays = legResults.flatMap(leg => leg.priced.filter(p => p.category.id === category.id));
+
+    if (category.scope === 'trip') {
+      const trip = tripPriced.find(p => p.category.id === category.id);
+      if (trip) summaries[category.id] = trip.result;
+    } else if (category.scope === 'transport') {
+      const returnHop = returnPriced.find(p => p.category.id === category.id)?.result || null;
+      if (stays.length === 0 && !returnHop) continue;
+
+      const hops = stays.map(stay => stay.result);
+      const all = returnHop ? [...hops, returnHop] : hops;
+      const chained = category.chain ? category.chain(hops, returnHop, currency) : chainOffers(category, hops, returnHop, currency);
+      const compliance = combineCompliance(all.map(hop => hop.compliance));
+      summaries[category.id] = {
+        ...toCategoryResult([{ ...chained, compliance }], all.flatMap(hop => hop.unparsed), chained[category.priceKey] <= budget),
+        cache: combineCacheInfo(all.map(hop => hop.cache)),
+      };
+    } else if (stays.length > 0) {
+      summaries[category.id] = summariseStays(category, stays, budget, currency);
+    }
+  }
+
+  const byCategory = costsByCategory(priced, party);
+  const totalCost = roundForCurrency(sumCosts(byCategory), currency);
+  const confidence = checkConfidence(priced, context);
+
+  legResults.forEach(({ check, priced: legPriced }, i) => {
+    const parts = legPriced.map(({ category, result }) => `${category.icon} ${describeUnitPrice(category, result[category.priceKey], currency)}`);
+    console.log(`📍 Leg ${i + 1} ${check.destination} (${check.nights} nights): ${currency} ${check.totalCost} — ${parts.join(', ') || 'nothing booked'}`);
+  });
+  returnPriced.forEach(({ category, result }) => {
+    console.log(`🏠 Return ${category.label.toLowerCase()}: ${describeUnitPrice(category, result[category.priceKey], currency)}`);
+  });
+  console.log(`💰 Total cost: ${currency} ${totalCost} (Budget: ${currency} ${totalBudget})`);
+  logConfidence(confidence);
+
+  return {
+    categories: summaries,
+    categoryInfo: categories.filter(category => summaries[category.id]).map(category => toCategoryInfo(category, tripDetails)),
+    legs: legResults.map(leg => leg.check),
+    returnTransport: Object.fromEntries(returnPriced.map(({ category, result }) => [category.id, result])),
+    bestCombination: null,
+    totalCost,
+    party,
+    budgetBasis: tripDetails.budgetBasis || 'trip',
+    costs: toPartyCosts(party, totalBudget, byCategory, currency),
+    withinTotalBudget: totalCost <= totalBudget && !confidence.lowConfidence,
+    simulated: priced.some(({ result }) => pricedBy(result, sources.fallback.name)),
+    ...confidence,
+  };
+}
+
+/**
+ * Price a single-destination trip: every category once, with transport
+ * priced as a round trip unless the trip is one-way
+ */
+async function checkDestinationPrices(
+  categories: TripCategory[],
+  context: PricingContext
+): Promise<Omit<PriceCheck, 'currency' | 'exchangeRatesUpdatedAt' | 'timestamp' | 'provider' | 'simulation' | 'servedFromCache' | 'degraded'>> {
+  const { tripDetails, party, totalBudget, sources } = context;
+  const { currency } = sources;
+  const days = daysBetween(tripDetails.startDate, tripDetails.endDate);
+
+  console.log(`\n🎯 Checking prices for ${days}-day trip from ${tripDetails.origin} to ${tripDetails.destination}: ${categories.map(c => c.label.toLowerCase()).join(', ') || 'nothing to price'}`);
+
+  // Check all prices in parallel for speed, passing user preferences
+  const results = await Promise.all(categories.map(category => priceCategory(category, {
+    origin: tripDetails.origin,
+    destination: tripDetails.destination,
+    startDate: tripDetails.startDate,
+    endDate: tripDetails.endDate,
+    returnDate: category.scope === 'transport' && tripDetails.tripType !== 'one-way' ? tripDetails.endDate : undefined,
+  }, context)));
+
+  const priced = categories.map((category, i) => ({ category, result: results[i], nights: days }));
+
+  // Calculate totals for the whole party
+  const byCategory = costsByCategory(priced, party);
+  const totalCost = roundForCurrency(sumCosts(byCategory), currency);
+  const confidence = checkConfidence(priced, context);
+
+  const bestCombination = findCheapestCombination(priced.map(({ category, result }) => ({
+    id: category.id,
+    prices: result.offers.map((offer: any) => offer[category.priceKey]),
+    units: unitCount(category, party, days),
+    unitBudget: unitBudget(category, tripDetails, party),
+    eligible: result.offers.map((offer: OfferBase) => isTrusted(offer, context)),
+  })), totalBudget);
+
+  console.log(`💰 Total cost: ${currency} ${totalCost} (Budget: ${currency} ${totalBudget})`);
+  for (const { category, result } of priced) {
+    const budget = unitBudget(category, tripDetails, party);
+    const budgetText = Number.isFinite(budget) ? describeUnitPrice(category, budget, currency) : 'none';
+    console.log(`${category.icon} ${category.label}: ${describeUnitPrice(category, result[category.priceKey], currency)} (${result.withinBudget ? '✅' : '❌'} budget: ${budgetText}, ${result.offers.length} offers)`);
+  }
+  console.log(`🧩 Best in-budget combination: ${bestCombination ? `${currency} ${bestCombination.totalCost}` : 'none'}`);
+  logConfidence(confidence);
+
+  return {
+    categories: Object.fromEntries(priced.map(({ category, result }) => [category.id, result])),
+    categoryInfo: categories.map(category => toCategoryInfo(category, tripDetails)),
+    bestCombination,
+    totalCost,
+    party,
+    budgetBasis: tripDetails.budgetBasis || 'trip',
+    costs: toPartyCosts(party, totalBudget, byCategory, currency),
+    withinTotalBudget: totalCost <= totalBudget && !confidence.lowConfidence,
+    simulated: priced.some(({ result }) => pricedBy(result, sources.fallback.name)),
+    ...confidence,
+  };
+}
+
+/**
+ * Generate comprehensive price data using the configured price provider,
+ * or the seeded simulation provider when simulation mode is enabled.
+ * Only the categories the trip includes are priced; multi-city trips are
+ * priced leg by leg.
+ */
+export async function checkAllPrices(tripDetails: TripDetails, simulation: SimulationSettings = DEFAULT_SIMULATION()): Promise<PriceCheck> {
+  const fallback = getFallbackProvider(simulation);
+  const provider = simulation.enabled ? fallback : getPriceProvider();
+  const currency = tripDetails.currency || DEFAULT_CURRENCY;
+  const rates = await loadExchangeRates();
+  const party = resolveParty(tripDetails);
+  const context: PricingContext = {
+    tripDetails,
+    sources: createOfferSources(provider, fallback, currency, rates),
+    party,
+    totalBudget: partyTotalBudget(tripDetails, party),
+    acceptGuesses: simulation.enabled,
+    useCache: !simulation.enabled,
+  };
+  console.log(`🔌 Using price provider: ${provider.name} (prices in ${currency})`);
+  console.log(`👥 Party: ${party.adults} adults, ${party.children} children, ${party.rooms} rooms (budgets per ${tripDetails.budgetBasis === 'per-person' ? 'person' : 'trip'})`);
+
+  const categories = enabledCategories(tripDetails);
+  const legs = resolveLegs(tripDetails);
+  const prices = legs.length > 1
+    ? await checkItineraryPrices(legs, categories, context)
+    : await checkDestinationPrices(categories, context);
+
+  const results = Object.values(prices.categories);
+  return {
+    ...prices,
+    servedFromCache: results.length > 0 && results.every(result => result?.cache?.hit),
+    currency,
+    exchangeRatesUpdatedAt: rates.updatedAt,
+    timestamp: new Date().toISOString(),
+    provider: provider.name,
+    simulation,
+    degraded: degradedServices(),
+  };
+}
@@ -0,0 +1,116 @@
+import { readFile } from 'fs/promises';
+import type { PriceProvider, ProviderResult, FlightOffer, HotelOffer, CarOffer, CategoryOffer } from '../../types/travel';
+import { vendorFromUrl, flightSegments } from './shared';
+import { RECORDED_CONFIDENCE } from '../confidence';
+
+/**
+ * Shape of a fixture file. Each entry may be scoped to a route with
+ * `origin` / `destination`; entries without them match every search.
+ * Prices are in USD unless an entry sets `currency`. Flight entries are
+ * round-trip fares unless they set `"tripType": "one-way"`; a one-way entry
+ * matches the return leg of a search with its origin and destination swapped.
+ * Other categories are listed under their category id, e.g. "rail".
+ *
+ * @example
+ * {
+ *   "flights": [{ "destination": "Paris", "price": 540, "carrier": "Delta", "bookingUrl": "https://www.kayak.com/..." }],
+ *   "hotels": [{ "pricePerNight": 140, "name": "Hilton", "vendor": "hilton.com" }],
+ *   "cars": [{ "pricePerDay": 45, "type": "Compact" }],
+ *   "rail": [{ "destination": "Rome", "price": 89, "name": "Trenitalia" }]
+ * }
+ */
+type FixtureOffer<T> = Omit<T, 'source' | 'vendor' | 'provenance' | 'confidence'> & { vendor?: string; bookingUrl?: string };
+
+type FixtureFlight = Omit<FixtureOffer<FlightOffer>, 'tripType' | 'bundled' | 'segments'> &
+  Partial<Pick<FlightOffer, 'tripType' | 'segments'>> & { origin?: string; destination?: string };
+
+type FixtureCategoryOffer = FixtureOffer<CategoryOffer> & { origin?: string; destination?: string };
+
+interface FixtureFile {
+  flights?: Array<FixtureFlight>;
+  hotels?: Array<FixtureOffer<HotelOffer> & { destination?: string }>;
+  cars?: Array<FixtureOffer<CarOffer> & { destination?: string }>;
+  [category: string]: Array<any> | undefined; // Offers for other categories: FixtureCategoryOffer
+}
+
+const DEFAULT_FIXTURE_PATH = 'fixtures/prices.json';
+
+let cachedFixtures: { path: string; data: FixtureFile } | null = null;
+
+/**
+ * Load the fixture file named by PRICE_FIXTURE_PATH (read once per path)
+ */
+async function loadFixtures(): Promise<FixtureFile> {
+  const path = process.env.PRICE_FIXTURE_PATH || import.meta.env.PRICE_FIXTURE_PATH || DEFAULT_FIXTURE_PATH;
+
+  if (cachedFixtures?.path === path) {
+    return cachedFixtures.data;
+  }
+
+  const data = JSON.parse(await readFile(path, 'utf-8')) as FixtureFile;
+  console.log(`📁 Loaded price fixtures from ${path}`);
+  cachedFixtures = { path, data };
+  return data;
+}
+
+function toOffer<T>(offer: FixtureOffer<T>): T {
+  return {
+    currency: 'USD',
+    ...offer,
+    source: 'fixture',
+    provenance: { provider: 'fixture', method: 'recorded', resultUrl: offer.bookingUrl, retrievedAt: new Date().toISOString() },
+    confidence: RECORDED_CONFIDENCE,
+    vendor: offer.vendor || vendorFromUrl(offer.bookingUrl),
+  } as T;
+}
+
+function matches(expected: string | undefined, actual: string): boolean {
+  return !expected || expected.toLowerCase() === actual.toLowerCase();
+}
+
+/**
+ * Price provider that replays recorded offers from a JSON file,
+ * so the whole pipeline can run offline.
+ */
+export const fixtureProvider: PriceProvider = {
+  name: 'fixture',
+
+  async searchFlights(params): Promise<ProviderResult<FlightOffer>> {
+    const { flights = [] } = await loadFixtures();
+    const tripType = params.returnDate ? 'round-trip' : 'one-way';
+    const offers = flights
+      .filter(f => (f.tripType || 'round-trip') === tripType)
+      .filter(f => matches(f.origin, params.origin) && matches(f.destination, params.destination))
+      .map(({ origin: _origin, destination: _destination, ...offer }) => toOffer<FlightOffer>({
+        ...offer,
+        tripType,
+        bundled: true,
+        segments: offer.segments || flightSegments(params, offer.carrier),
+      }));
+    return { offers, unparsed: [] };
+  },
+
+  async searchHotels({ destination }): Promise<ProviderResult<HotelOffer>> {
+    const { hotels = [] } = await loadFixtures();
+    const offers = hotels
+      .filter(h => matches(h.destination, destination))
+      .map(({ destination: _destination, ...offer }) => toOffer<HotelOffer>(offer));
+    return { offers, unparsed: [] };
+  },
+
+  async searchCars({ destination }): Promise<ProviderResult<CarOffer>> {
+    const { cars = [] } = await loadFixtures();
+    const offers = cars
+      .filter(c => matches(c.destination, destination))
+      .map(({ destination: _destination, ...offer }) => toOffer<CarOffer>(offer));
+    return { offers, unparsed: [] };
+  },
+
+  async searchCategory({ category, origin, destination }): Promise<ProviderResult<CategoryOffer>> {
+    const entries: FixtureCategoryOffer[] = (await loadFixtures())[category] || [];
+    const offers = entries
+      .filter(e => matches(e.origin, origin) && matches(e.destination, destination))
+      .map(({ origin: _origin, destination: _destination, ...offer }) => toOffer<CategoryOffer>(offer));
+    return { offers, unparsed: [] };
+  },
+};
@@ -0,0 +1,46 @@
+import type { PriceProvider, SimulationSettings } from '../../types/travel';
+import { perplexityProvider } from './perplexity';
+import { simulationProvider, createSimulationProvider } from './simulation';
+import { fixtureProvider } from './fixture';
+
+/**
+ * Registry of available price providers, keyed by name.
+ * Add new sources with registerPriceProvider().
+ */
+const providers = new Map<string, PriceProvider>([
+  [perplexityProvider.name, perplexityProvider],
+  [simulationProvider.name, simulationProvider],
+  [fixtureProvider.name, fixtureProvider],
+]);
+
+const DEFAULT_PROVIDER = 'perplexity';
+
+export function registerPriceProvider(provider: PriceProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function listPriceProviders(): string[] {
+  return [...providers.keys()];
+}
+
+/**
+ * Get a price provider by name, or the one configured via PRICE_PROVIDER
+ */
+export function getPriceProvider(name?: string): PriceProvider {
+  const selected = name || process.env.PRICE_PROVIDER || import.meta.env.PRICE_PROVIDER || DEFAULT_PROVIDER;
+  const provider = providers.get(selected);
+
+  if (!provider) {
+    throw new Error(`Unknown price provider "${selected}". Available: ${listPriceProviders().join(', ')}`);
+  }
+
+  return provider;
+}
+
+/**
+ * The provider used when the configured one returns no offers.
+ * It is seeded so fallback prices are reproducible too.
+ */
+export function getFallbackProvider(settings?: Partial<SimulationSettings>): PriceProvider {
+  return settings ? createSimulationProvider(settings) : simulationProvider;
+}
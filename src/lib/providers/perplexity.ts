@@ -0,0 +1,456 @@
+import type {
+  PriceProvider,
+  ProviderResult,
+  PriceCategory,
+  FlightPreferences,
+  HotelPreferences,
+  CarRentalPreferences,
+  FlightOffer,
+  HotelOffer,
+  CarOffer,
+  CategoryOffer,
+} from '../../types/travel';
+import { vendorFromUrl, flightItinerary } from './shared';
+import { fetchJson } from '../resilience';
+import { extractStructuredOffers, type ExtractedOffer, type OfferDetail, type OfferEvidence, type SearchSnippet } from '../extraction';
+
+/**
+ * Domain filters for travel booking websites
+ */
+const TRAVEL_DOMAINS: Record<PriceCategory, string[]> = {
+  flights: [
+    'expedia.com',
+    'kayak.com',
+    'skyscanner.com',
+    'google.com/flights',
+    'united.com',
+    'delta.com',
+    'american.com',
+    'southwest.com',
+    'jetblue.com',
+    'alaskaair.com',
+    'spirit.com',
+    'frontier.com',
+    'priceline.com',
+    'orbitz.com',
+    'cheapoair.com',
+    'momondo.com',
+    'hipmunk.com',
+    'booking.com/flights'
+  ],
+  hotels: [
+    'booking.com',
+    'expedia.com',
+    'hotels.com',
+    'priceline.com',
+    'orbitz.com',
+    'kayak.com',
+    'trivago.com',
+    'agoda.com',
+    'marriott.com',
+    'hilton.com',
+    'ihg.com',
+    'hyatt.com',
+    'accor.com',
+    'choicehotels.com',
+    'wyndhamhotels.com',
+    'bestwestern.com',
+    'sheraton.com',
+    'westin.com',
+    'ritzcarlton.com',
+    'fourseasons.com'
+  ],
+  cars: [
+    'enterprise.com',
+    'hertz.com',
+    'avis.com',
+    'budget.com',
+    'nationalcar.com',
+    'alamo.com',
+    'thrifty.com',
+    'dollar.com',
+    'expedia.com',
+    'kayak.com',
+    'priceline.com',
+    'orbitz.com',
+    'rentalcars.com',
+    'autoeurope.com',
+    'carrentals.com',
+    'hotwire.com',
+    'costcotravel.com',
+    'aaa.com'
+  ]
+};
+
+const PERPLEXITY_BASE_URL = 'https://api.perplexity.ai';
+
+/**
+ * Call Perplexity Search API for real-time data with domain filtering.
+ * Returns null without an API key; failures that outlast the retries (or
+ * an open circuit) throw, so the caller falls back to simulated prices.
+ */
+async function searchPerplexity(query: string, searchType: string, domainFilter: string[]): Promise<any> {
+  const apiKey = process.env.PERPLEXITY_API_KEY || import.meta.env.PERPLEXITY_API_KEY;
+  const baseUrl = process.env.PERPLEXITY_BASE_URL || import.meta.env.PERPLEXITY_BASE_URL || PERPLEXITY_BASE_URL;
+
+  console.log('🔑 Perplexity API key:', apiKey ? `${apiKey.substring(0, 10)}...` : 'NOT FOUND');
+
+  if (!apiKey) {
+    console.warn('⚠️ Perplexity API key not found, using mock data');
+    return null;
+  }
+
+  console.log(`📡 Calling Perplexity API for ${searchType}...`);
+
+  if (domainFilter.length > 0) {
+    console.log(`🎯 Filtering to ${domainFilter.length} travel domains`);
+  }
+
+  try {
+    const data = await fetchJson('perplexity', `${baseUrl}/search`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        query,
+        max_results: 5,
+        max_tokens_per_page: 512,
+        ...(domainFilter.length > 0 ? { search_domain_filter: domainFilter } : {}),
+      }),
+    });
+    console.log('✅ Perplexity API success, data:', JSON.stringify(data).substring(0, 200));
+    return data;
+  } catch (error) {
+    console.error(`❌ Perplexity API error:`, error instanceof Error ? error.message : error);
+    throw error;
+  }
+}
+
+/**
+ * Flatten a Perplexity response into searchable text
+ */
+function extractText(searchResult: any): string {
+  return searchResult.answer || (searchResult.results && searchResult.results.map((r: any) => r.snippet || r.title || '').join(' ')) || '';
+}
+
+/**
+ * Split a Perplexity response into one snippet per search result
+ */
+function toSnippets(searchResult: any): SearchSnippet[] {
+  if (Array.isArray(searchResult.results) && searchResult.results.length > 0) {
+    return searchResult.results.map((result: any) => ({
+      url: result.url,
+      text: [result.title, result.snippet].filter(Boolean).join(' '),
+    }));
+  }
+
+  return searchResult.answer ? [{ text: searchResult.answer }] : [];
+}
+
+/**
+ * Fields shared by every offer built from an extracted result
+ */
+function offerBase(offer: ExtractedOffer & OfferEvidence, snippets: SearchSnippet[], query: string) {
+  const resultUrl = snippets[offer.resultIndex].url;
+  const bookingUrl = offer.url || resultUrl;
+  return {
+    source: 'perplexity',
+    provenance: {
+      provider: 'perplexity',
+      method: 'extracted' as const,
+      query,
+      resultUrl,
+      snippetSpan: offer.span,
+      retrievedAt: new Date().toISOString(),
+    },
+    confidence: offer.confidence,
+    vendor: offer.vendor || vendorFromUrl(bookingUrl),
+    bookingUrl,
+    snippet: snippets[offer.resultIndex].text.substring(0, 300),
+    currency: offer.currency,
+    startDate: offer.startDate,
+    endDate: offer.endDate,
+  };
+}
+
+/**
+ * Readers for extracted offer details: undefined unless the value has the expected shape
+ */
+const asCount = (value?: OfferDetail) => (typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : undefined);
+const asFlag = (value?: OfferDetail) => (typeof value === 'boolean' ? value : undefined);
+const asOneOf = <T extends string>(value: OfferDetail | undefined, options: readonly T[]) =>
+  (options.includes(value as T) ? (value as T) : undefined);
+const asList = (value?: OfferDetail) => (Array.isArray(value) ? value.map(item => item.toLowerCase()) : undefined);
+
+function flightDetails(details: Record<string, OfferDetail> = {}): Partial<FlightOffer> {
+  const time = typeof details.departureTime === 'string' && /^([01]?\d|2[0-3]):[0-5]\d$/.test(details.departureTime)
+    ? details.departureTime.padStart(5, '0')
+    : undefined;
+  return {
+    stops: asCount(details.stops),
+    departureTime: time,
+    checkedBags: asCount(details.checkedBags),
+    extraLegroom: asFlag(details.extraLegroom),
+  };
+}
+
+function hotelDetails(details: Record<string, OfferDetail> = {}): Partial<HotelOffer> {
+  const stars = asCount(details.starRating);
+  return {
+    starRating: stars !== undefined && stars >= 1 && stars <= 5 ? stars : undefined,
+    roomType: asOneOf(details.roomType, ['single', 'double', 'suite'] as const),
+    amenities: asList(details.amenities),
+    cancellationPolicy: asOneOf(details.cancellationPolicy, ['flexible', 'moderate', 'strict'] as const),
+  };
+}
+
+function carDetails(details: Record<string, OfferDetail> = {}): Partial<CarOffer> {
+  return {
+    transmission: asOneOf(details.transmission, ['automatic', 'manual'] as const),
+    mileage: asOneOf(details.mileage, ['unlimited', 'limited'] as const),
+    features: asList(details.features),
+  };
+}
+
+/**
+ * Build flight preferences query string
+ */
+function buildFlightPreferencesQuery(prefs?: FlightPreferences): string {
+  if (!prefs) return '';
+  
+  const parts: string[] = [];
+  
+  if (prefs.stops && prefs.stops !== 'any') {
+    parts.push(`${prefs.stops} flights only`);
+  }
+  
+  if (prefs.preferredAirlines && prefs.preferredAirlines.length > 0) {
+    parts.push(`Prefer airlines: ${prefs.preferredAirlines.join(', ')}`);
+  }
+  
+  if (prefs.extraLegroom) {
+    parts.push('with extra legroom seats');
+  }
+  
+  if (prefs.timeOfDay && prefs.timeOfDay !== 'any') {
+    parts.push(`${prefs.timeOfDay} departure time`);
+  }
+  
+  if (prefs.baggageCount) {
+    parts.push(`including ${prefs.baggageCount} checked bag(s)`);
+  }
+  
+  return parts.length > 0 ? `\nPreferences: ${parts.join(', ')}.` : '';
+}
+
+/**
+ * Describe the passengers for a flight query, e.g. ' for 2 adults and 1 child'.
+ * Empty for a single adult.
+ */
+function describePassengers(adults: number, children: number): string {
+  if (adults <= 1 && children === 0) return '';
+
+  const parts = [`${adults} adult${adults > 1 ? 's' : ''}`];
+  if (children > 0) {
+    parts.push(`${children} child${children > 1 ? 'ren' : ''}`);
+  }
+  return ` for ${parts.join(' and ')}`;
+}
+
+/**
+ * Build hotel preferences query string
+ */
+function buildHotelPreferencesQuery(prefs?: HotelPreferences): string {
+  if (!prefs) return '';
+  
+  const parts: string[] = [];
+  
+  if (prefs.starRating) {
+    parts.push(`${prefs.starRating}-star rating or better`);
+  }
+  
+  if (prefs.roomType && prefs.roomType !== 'any') {
+    parts.push(`${prefs.roomType} room`);
+  }
+  
+  if (prefs.amenities && prefs.amenities.length > 0) {
+    const amenityList = prefs.amenities.map(a => {
+      const amenityMap: Record<string, string> = {
+        'wifi': 'free WiFi',
+        'breakfast': 'breakfast included',
+        'gym': 'fitness center',
+        'pool': 'swimming pool',
+        'parking': 'free parking'
+      };
+      return amenityMap[a] || a;
+    }).join(', ');
+    parts.push(`with ${amenityList}`);
+  }
+  
+  if (prefs.cancellationPolicy && prefs.cancellationPolicy !== 'any') {
+    parts.push(`${prefs.cancellationPolicy} cancellation policy`);
+  }
+  
+  return parts.length > 0 ? `\nPreferences: ${parts.join(', ')}.` : '';
+}
+
+/**
+ * Build car rental preferences query string
+ */
+function buildCarRentalPreferencesQuery(prefs?: CarRentalPreferences): string {
+  if (!prefs) return '';
+  
+  const parts: string[] = [];
+  
+  if (prefs.vehicleType && prefs.vehicleType !== 'any') {
+    parts.push(`${prefs.vehicleType} vehicle`);
+  }
+  
+  if (prefs.transmission && prefs.transmission !== 'any') {
+    parts.push(`${prefs.transmission} transmission`);
+  }
+  
+  if (prefs.mileage) {
+    parts.push(`${prefs.mileage} mileage`);
+  }
+  
+  if (prefs.features && prefs.features.length > 0) {
+    const featureMap: Record<string, string> = {
+      'gps': 'GPS navigation',
+      'bluetooth': 'Bluetooth',
+      'backup-camera': 'backup camera',
+      'usb': 'USB ports',
+      'carplay': 'Apple CarPlay'
+    };
+    const featureList = prefs.features.map(f => featureMap[f] || f).join(', ');
+    parts.push(`with ${featureList}`);
+  }
+  
+  return parts.length > 0 ? `\nPreferences: ${parts.join(', ')}.` : '';
+}
+
+/**
+ * Price provider backed by the Perplexity Search API.
+ * Search results are turned into offers by the model-based extraction
+ * stage; it returns no offers when the API is unavailable so the caller
+ * can fall back.
+ */
+export const perplexityProvider: PriceProvider = {
+  name: 'perplexity',
+
+  async searchFlights(params): Promise<ProviderResult<FlightOffer>> {
+    const { origin, destination, departureDate, returnDate, adults = 1, children = 0, preferences } = params;
+    // Optimized query with specific instructions and user preferences
+    const prefsQuery = buildFlightPreferencesQuery(preferences);
+    const trip = returnDate
+      ? `round-trip flight prices from ${origin} to ${destination} departing on ${departureDate} and returning on ${returnDate}`
+      : `one-way flight prices from ${origin} to ${destination} departing on ${departureDate}`;
+    const query = `Find the cheapest ${trip}${describePassengers(adults, children)}. 
+Search only travel booking sites (Kayak, Expedia, Google Flights, Skyscanner).
+Provide specific prices per passenger with their currency, airline names, and direct booking links.${prefsQuery}
+Format: "[price with currency] on [Airline] via [booking site URL]"`;
+
+    console.log(`🔍 Searching flights: ${query}`);
+    const searchResult = await searchPerplexity(query, 'flights', TRAVEL_DOMAINS.flights);
+
+    if (!searchResult || !(searchResult.answer || searchResult.results)) {
+      return { offers: [], unparsed: [] };
+    }
+
+    const text = extractText(searchResult);
+    console.log(`✅ Perplexity flight result:`, text ? text.substring(0, 200) : 'No text found');
+
+    const snippets = toSnippets(searchResult);
+    const { offers, unparsed } = await extractStructuredOffers('flights', snippets, 'perplexity');
+
+    return {
+      offers: offers.map(offer => {
+        const carrier = offer.label || 'Unknown airline';
+        return { ...offerBase(offer, snippets, query), price: offer.price, carrier, ...flightItinerary(params, carrier), ...flightDetails(offer.details) };
+      }),
+      unparsed,
+    };
+  },
+
+  async searchHotels({ destination, checkInDate, guests = 1, rooms = 1, preferences }): Promise<ProviderResult<HotelOffer>> {
+    // Optimized query for specific pricing and booking information with preferences
+    const prefsQuery = buildHotelPreferencesQuery(preferences);
+    const occupancy = guests > 1 || rooms > 1 ? ` for ${guests} guests in ${rooms} room${rooms > 1 ? 's' : ''}` : '';
+    const query = `Find the cheapest hotel rates per night in ${destination} for check-in date ${checkInDate}${occupancy}.
+Search only hotel booking sites (Booking.com, Hotels.com, Expedia, Kayak, Trivago).
+Provide specific nightly rates (price per room per night, with currency), hotel names, star ratings, and direct booking URLs.${prefsQuery}
+Format: "[price with currency]/night at [Hotel Name] ([X] stars) - [booking URL]"`;
+
+    console.log(`🔍 Searching hotels: ${query}`);
+    const searchResult = await searchPerplexity(query, 'hotels', TRAVEL_DOMAINS.hotels);
+
+    if (!searchResult || !(searchResult.answer || searchResult.results)) {
+      return { offers: [], unparsed: [] };
+    }
+
+    const text = extractText(searchResult);
+    console.log(`✅ Perplexity hotel result:`, text ? text.substring(0, 200) : 'No text found');
+
+    const snippets = toSnippets(searchResult);
+    const { offers, unparsed } = await extractStructuredOffers('hotels', snippets, 'perplexity');
+
+    return {
+      offers: offers.map(offer => ({ ...offerBase(offer, snippets, query), pricePerNight: offer.price, name: offer.label || 'Unknown hotel', ...hotelDetails(offer.details) })),
+      unparsed,
+    };
+  },
+
+  async searchCars({ destination, pickupDate, preferences }): Promise<ProviderResult<CarOffer>> {
+    // Optimized query for car rental pricing with specific requirements and preferences
+    const prefsQuery = buildCarRentalPreferencesQuery(preferences);
+    const query = `Find the cheapest car rental rates per day in ${destination} for pickup date ${pickupDate}.
+Search only car rental booking sites (Enterprise, Hertz, Avis, Budget, Kayak, Expedia).
+Provide specific daily rates (price per day, with currency), rental company names, car types (economy, compact, etc.), and direct booking URLs.${prefsQuery}
+Format: "[price with currency]/day for [Car Type] from [Company] - [booking URL]"`;
+
+    console.log(`🔍 Searching car rentals: ${query}`);
+    const searchResult = await searchPerplexity(query, 'cars', TRAVEL_DOMAINS.cars);
+
+    if (!searchResult || !(searchResult.answer || searchResult.results)) {
+      return { offers: [], unparsed: [] };
+    }
+
+    const text = extractText(searchResult);
+    console.log(`✅ Perplexity car rental result:`, text ? text.substring(0, 200) : 'No text found');
+
+    const snippets = toSnippets(searchResult);
+    const { offers, unparsed } = await extractStructuredOffers('cars', snippets, 'perplexity');
+
+    return {
+      offers: offers.map(offer => ({ ...offerBase(offer, snippets, query), pricePerDay: offer.price, type: offer.label || 'Unknown car type', ...carDetails(offer.details) })),
+      unparsed,
+    };
+  },
+
+  async searchCategory({ category, label, description, priceUnit, nameLabel, travelers, domains = [] }): Promise<ProviderResult<CategoryOffer>> {
+    const party = travelers > 1 ? ` for ${travelers} travelers` : '';
+    const query = `Find the cheapest ${description}${party}.
+Provide specific prices (${priceUnit}, with currency), ${nameLabel}s, and direct booking URLs.
+Format: "[price with currency] for [${nameLabel}] - [booking URL]"`;
+
+    console.log(`🔍 Searching ${label.toLowerCase()}: ${query}`);
+    const searchResult = await searchPerplexity(query, category, domains);
+
+    if (!searchResult || !(searchResult.answer || searchResult.results)) {
+      return { offers: [], unparsed: [] };
+    }
+
+    const text = extractText(searchResult);
+    console.log(`✅ Perplexity ${label.toLowerCase()} result:`, text ? text.substring(0, 200) : 'No text found');
+
+    const snippets = toSnippets(searchResult);
+    const { offers, unparsed } = await extractStructuredOffers(category, snippets, 'perplexity', { label: nameLabel, priceUnit });
+
+    return {
+      offers: offers.map(offer => ({ ...offerBase(offer, snippets, query), price: offer.price, name: offer.label || `Unknown ${nameLabel}` })),
+      unparsed,
+    };
+  },
+};
@@ -0,0 +1,51 @@
+import type { FlightOffer, FlightSearchParams, FlightSegment } from '../../types/travel';
+
+/**
+ * Derive a vendor name from a booking URL, e.g. 'https://www.kayak.com/x' -> 'kayak.com'
+ */
+export function vendorFromUrl(url: string | undefined, fallback = 'unknown'): string {
+  if (!url) return fallback;
+
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Segments for a single-ticket fare matching the search: one outbound
+ * segment, plus a return segment when the search has a return date
+ */
+export function flightSegments(params: FlightSearchParams, carrier: string): FlightSegment[] {
+  const segments: FlightSegment[] = [{
+    direction: 'outbound',
+    origin: params.origin,
+    destination: params.destination,
+    date: params.departureDate,
+    carrier,
+  }];
+
+  if (params.returnDate) {
+    segments.push({
+      direction: 'return',
+      origin: params.destination,
+      destination: params.origin,
+      date: params.returnDate,
+      carrier,
+    });
+  }
+
+  return segments;
+}
+
+/**
+ * Trip type, bundling and segments for a single-ticket fare matching the search
+ */
+export function flightItinerary(params: FlightSearchParams, carrier: string): Pick<FlightOffer, 'tripType' | 'bundled' | 'segments'> {
+  return {
+    tripType: params.returnDate ? 'round-trip' : 'one-way',
+    bundled: true,
+    segments: flightSegments(params, carrier),
+  };
+}
@@ -0,0 +1,232 @@
+import type { PriceProvider, ProviderResult, FlightOffer, HotelOffer, CarOffer, CategoryOffer, PriceCurve, SimulationSettings } from '../../types/travel';
+import { createSeededRandom, pick } from '../random';
+import { vendorFromUrl, flightItinerary } from './shared';
+import { SIMULATED_CONFIDENCE } from '../confidence';
+
+const OFFERS_PER_CATEGORY = 3;
+
+/**
+ * Offer features, each included with the given probability
+ */
+function someOf(items: string[], probability: number, random: () => number): string[] {
+  return items.filter(() => random() < probability);
+}
+
+/**
+ * Origin fields of a generated offer: never a real price
+ */
+function simulatedOrigin() {
+  return {
+    source: 'simulation',
+    provenance: { provider: 'simulation', method: 'simulated' as const, retrievedAt: new Date().toISOString() },
+    confidence: SIMULATED_CONFIDENCE,
+  };
+}
+
+export const PRICE_CURVES: PriceCurve[] = ['random', 'steady-drop', 'spike', 'volatile'];
+
+/**
+ * Price multiplier for a scripted curve at a given check number.
+ * `noise` is a seeded value in [0, 1) so the same check always lands on the same price.
+ */
+function curveMultiplier(curve: PriceCurve, checkNumber: number, noise: number): number {
+  const jitter = (amount: number) => 1 + (noise * 2 - 1) * amount;
+
+  switch (curve) {
+    case 'steady-drop':
+      // 3% cheaper per check, bottoming out at 60% of the starting price
+      return Math.max(0.6, 1 - 0.03 * checkNumber) * jitter(0.02);
+    case 'spike':
+      // Calm prices with a 60% spike on checks 5 and 6 of every ten
+      return (checkNumber % 10 === 5 || checkNumber % 10 === 6 ? 1.6 : 1) * jitter(0.02);
+    case 'volatile':
+      return (1 + 0.35 * Math.sin(checkNumber * 1.3)) * jitter(0.15);
+    case 'random':
+    default:
+      return jitter(0.2);
+  }
+}
+
+/**
+ * Resolve simulation settings for a request. Query parameters win over
+ * environment variables:
+ * - ?simulate=<curve>|true  (or SIMULATION_MODE=true / PRICE_PROVIDER=simulation)
+ * - ?seed=<text>            (or SIMULATION_SEED)
+ * - ?check=<number>         check count, sent by the dashboard
+ * - ?date=<YYYY-MM-DD>      pins the day used in the seed (default: today)
+ */
+export function resolveSimulationSettings(params: URLSearchParams): SimulationSettings {
+  const env = (name: string): string | undefined => process.env[name] || import.meta.env[name];
+
+  const simulateParam = params.get('simulate');
+  const requestedCurve = simulateParam && simulateParam !== 'true' ? simulateParam : env('SIMULATION_CURVE');
+  const curve = PRICE_CURVES.includes(requestedCurve as PriceCurve) ? (requestedCurve as PriceCurve) : 'random';
+
+  const enabled = simulateParam !== null
+    ? simulateParam !== 'false'
+    : env('SIMULATION_MODE') === 'true' || env('PRICE_PROVIDER') === 'simulation';
+
+  const checkNumber = parseInt(params.get('check') || '0', 10);
+
+  return {
+    enabled,
+    curve,
+    seed: params.get('seed') || env('SIMULATION_SEED') || undefined,
+    checkNumber: Number.isFinite(checkNumber) && checkNumber > 0 ? checkNumber : 0,
+    date: params.get('date') || new Date().toISOString().split('T')[0],
+  };
+}
+
+/**
+ * Create a price provider that generates realistic, reproducible prices (in USD).
+ * Prices come from a generator seeded by the trip, the day and the check
+ * count, then follow the configured price curve.
+ */
+export function createSimulationProvider(settings: Partial<SimulationSettings> = {}): PriceProvider {
+  const { curve = 'random', checkNumber = 0, seed = '' } = settings;
+
+  /**
+   * Build a seeded generator for one offer. The base price only depends on the
+   * trip so the curve is visible; the noise also depends on the day and check.
+   */
+  function generator(category: string, tripKey: string, index: number) {
+    const date = settings.date || new Date().toISOString().split('T')[0];
+    const base = createSeededRandom(`${seed}|${category}|${tripKey}|${index}`);
+    const noise = createSeededRandom(`${seed}|${category}|${tripKey}|${index}|${date}|${checkNumber}`);
+    return {
+      base,
+      price: (min: number, max: number) => {
+        const basePrice = min + base() * (max - min);
+        return Math.max(1, Math.round(basePrice * curveMultiplier(curve, checkNumber, noise())));
+      },
+    };
+  }
+
+  return {
+    name: 'simulation',
+
+    async searchFlights(params): Promise<ProviderResult<FlightOffer>> {
+      const { origin, destination, departureDate, returnDate } = params;
+      const airlines = ['United', 'Delta', 'American', 'Southwest', 'JetBlue'];
+      const route = `${origin.toLowerCase()}-${destination.toLowerCase()}`;
+
+      const offers = Array.from({ length: OFFERS_PER_CATEGORY }, (_, i) => {
+        const random = generator('flights', `${route}|${departureDate}|${returnDate || 'one-way'}`, i);
+        const carrier = pick(airlines, random.base);
+
+        // Generate realistic booking URLs
+        const bookingUrl = pick([
+          `https://www.${carrier.toLowerCase()}.com/flights/${route}`,
+          `https://www.expedia.com/flights/${route}`,
+          `https://www.kayak.com/flights/${route}`
+        ], random.base);
+
+        return {
+          // A return ticket costs roughly twice a one-way fare
+          price: returnDate ? random.price(400, 900) : random.price(200, 500),
+          carrier,
+          ...flightItinerary(params, carrier),
+          currency: 'USD',
+          ...simulatedOrigin(),
+          vendor: vendorFromUrl(bookingUrl),
+          bookingUrl,
+          // Drawn last so prices stay the same for a given seed
+          stops: pick([0, 0, 1, 1, 2], random.base),
+          departureTime: `${String(5 + Math.floor(random.base() * 18)).padStart(2, '0')}:${pick(['00', '15', '30', '45'], random.base)}`,
+          checkedBags: pick([0, 0, 1], random.base),
+          extraLegroom: random.base() < 0.2,
+        };
+      });
+
+      return { offers, unparsed: [] };
+    },
+
+    async searchHotels({ destination, checkInDate }): Promise<ProviderResult<HotelOffer>> {
+      const hotelNames = ['Marriott', 'Hilton', 'Hyatt', 'Holiday Inn', 'Best Western', 'Sheraton'];
+
+      const offers = Array.from({ length: OFFERS_PER_CATEGORY }, (_, i) => {
+        const random = generator('hotels', `${destination.toLowerCase()}|${checkInDate}`, i);
+        const name = pick(hotelNames, random.base);
+
+        // Generate realistic booking URLs
+        const bookingUrl = pick([
+          `https://www.${name.toLowerCase().replace(' ', '')}.com/hotels/${destination.toLowerCase()}`,
+          `https://www.booking.com/searchresults.html?ss=${destination}`,
+          `https://www.hotels.com/search.do?destination=${destination}`
+        ], random.base);
+
+        return {
+          pricePerNight: random.price(80, 280),
+          name,
+          currency: 'USD',
+          ...simulatedOrigin(),
+          vendor: vendorFromUrl(bookingUrl),
+          bookingUrl,
+          starRating: pick([2, 3, 3, 4, 4, 5], random.base),
+          amenities: someOf(['wifi', 'breakfast', 'gym', 'pool', 'parking'], 0.6, random.base),
+          cancellationPolicy: pick(['flexible', 'moderate', 'strict'] as const, random.base),
+        };
+      });
+
+      return { offers, unparsed: [] };
+    },
+
+    async searchCars({ destination, pickupDate }): Promise<ProviderResult<CarOffer>> {
+      const carTypes = ['Economy', 'Compact', 'Mid-size', 'Full-size', 'SUV'];
+
+      const offers = Array.from({ length: OFFERS_PER_CATEGORY }, (_, i) => {
+        const random = generator('cars', `${destination.toLowerCase()}|${pickupDate}`, i);
+        const type = pick(carTypes, random.base);
+
+        // Generate realistic booking URLs
+        const bookingUrl = pick([
+          `https://www.enterprise.com/en/car-rental/locations/us/${destination.toLowerCase()}.html`,
+          `https://www.hertz.com/rentacar/location/us/${destination.toLowerCase()}`,
+          `https://www.avis.com/en/locations/us/${destination.toLowerCase()}`
+        ], random.base);
+
+        return {
+          pricePerDay: random.price(30, 100),
+          type,
+          currency: 'USD',
+          ...simulatedOrigin(),
+          vendor: vendorFromUrl(bookingUrl),
+          bookingUrl,
+          transmission: pick(['automatic', 'automatic', 'manual'] as const, random.base),
+          mileage: pick(['unlimited', 'limited'] as const, random.base),
+          features: someOf(['gps', 'bluetooth', 'backup-camera', 'usb', 'carplay'], 0.5, random.base),
+        };
+      });
+
+      return { offers, unparsed: [] };
+    },
+
+    async searchCategory({ category, origin, destination, startDate, returnDate, typicalPrice, examples }): Promise<ProviderResult<CategoryOffer>> {
+      const [min, max] = typicalPrice;
+      const route = `${origin.toLowerCase()}-${destination.toLowerCase()}`;
+
+      const offers = Array.from({ length: OFFERS_PER_CATEGORY }, (_, i) => {
+        const random = generator(category, `${route}|${startDate}|${returnDate || 'one-way'}`, i);
+        const name = pick(examples, random.base);
+        const bookingUrl = `https://www.${name.toLowerCase().split(' ')[0]}.com/`;
+
+        return {
+          // Round trips cost roughly twice a single journey
+          price: returnDate ? random.price(min * 2, max * 2) : random.price(min, max),
+          name,
+          currency: 'USD',
+          ...simulatedOrigin(),
+          vendor: vendorFromUrl(bookingUrl),
+          bookingUrl,
+        };
+      });
+
+      return { offers, unparsed: [] };
+    },
+  };
+}
+
+/**
+ * Default simulation provider (random curve, no check count)
+ */
+export const simulationProvider = createSimulationProvider();
@@ -9,9 +9,14 @@
  * - RAINDROP_SMARTMEMORY_NAME: SmartMemory instance name (optional, defaults to 'travel-guardian-memory')
  * - RAINDROP_APPLICATION_NAME: Application identifier (optional, defaults to 'travel-guardian')
  * - RAINDROP_APPLICATION_VERSION: Version string (optional, defaults to '1.0.0')
+ * - RAINDROP_BASE_URL: API endpoint override, e.g. a local fake server (optional)
+ *
+ * Every request goes through callSdk() for timeouts, retries and the
+ * Raindrop circuit breaker.
  */
 
 import Raindrop from '@liquidmetal-ai/lm-raindrop';
+import { callSdk } from './resilience';
 
 /**
  * Initialize Raindrop client with API key from environment
@@ -35,7 +40,10 @@ export function getRaindropClient() {
     }
 
     console.log('✅ API key found, initializing Raindrop client');
-    return new Raindrop({ apiKey });
+    return new Raindrop({
+        apiKey,
+        baseURL: process.env.RAINDROP_BASE_URL || import.meta.env?.RAINDROP_BASE_URL || undefined,
+    });
 }
 
 /**
@@ -103,7 +111,7 @@ export async function saveToSmartMemory(sessionId, key, value) {
     const memoryValue = typeof value === 'object' ? JSON.stringify(value) : String(value);
 
     try {
-        const response = await client.saveMemory.create({
+        const response = await callSdk('raindrop', options => client.saveMemory.create({
             sessionId,
             smartMemoryLocation,
             memories: [{
@@ -111,7 +119,7 @@ export async function saveToSmartMemory(sessionId, key, value) {
                 value: memoryValue,
                 memoryType: 'working' // Can be: working, semantic, episodic, procedural
             }]
-        });
+        }, options));
 
         return response;
     } catch (error) {
@@ -140,12 +148,12 @@ export async function getFromSmartMemory(sessionId, key = null) {
     }
 
     try {
-        const response = await client.getMemory.retrieve({
+        const response = await callSdk('raindrop', options => client.getMemory.retrieve({
             sessionId,
             smartMemoryLocation,
             limit: key ? 1 : 10, // Retrieve single item if key specified, else get recent memories
             memoryType: 'working'
-        });
+        }, options));
 
         // If a specific key was requested, filter the results
         if (key && response.memories) {
@@ -182,9 +190,9 @@ export async function startSmartMemorySession() {
     const smartMemoryLocation = getSmartMemoryLocation();
 
     try {
-        const response = await client.startSession.create({
+        const response = await callSdk('raindrop', options => client.startSession.create({
             smartMemoryLocation
-        });
+        }, options));
 
         return response.sessionId;
     } catch (error) {
@@ -224,12 +232,12 @@ export async function saveToSmartBucket(bucketName, objectId, data) {
         // Encode content as base64
         const content = Buffer.from(jsonString, 'utf-8').toString('base64');
 
-        const response = await client.bucket.put({
+        const response = await callSdk('raindrop', options => client.bucket.put({
             bucketLocation,
             key: objectId,
             content,
             contentType: 'application/json'
-        });
+        }, options));
 
         return response;
     } catch (error) {
@@ -238,6 +246,125 @@ export async function saveToSmartBucket(bucketName, objectId, data) {
     }
 }
 
+/**
+ * List the objects in a SmartBucket whose keys start with a prefix
+ *
+ * @param {string} bucketName - Name of the bucket
+ * @param {string} prefix - Key prefix to keep (optional, defaults to every object)
+ * @returns {Promise<Array<{key: string, lastModified: string, size: number}>>} Matching objects
+ *
+ * @example
+ * const monitors = await listSmartBucket('price-history', 'monitor-');
+ */
+export async function listSmartBucket(bucketName, prefix = '') {
+    const client = getRaindropClient();
+    const bucketLocation = getSmartBucketLocation(bucketName);
+
+    try {
+        const response = await callSdk('raindrop', options => client.bucket.list({
+            bucketLocation
+        }, options));
+
+        return (response.objects || []).filter(obj => obj.key.startsWith(prefix));
+    } catch (error) {
+        console.error('Error listing SmartBucket:', error);
+        throw error;
+    }
+}
+
+/**
+ * Read a JSON object from SmartBucket by its exact key
+ * (unlike getFromSmartBucket, which searches)
+ *
+ * @param {string} bucketName - Name of the bucket
+ * @param {string} objectId - Object key
+ * @returns {Promise<Object|null>} Parsed object, or null when there is none
+ *
+ * @example
+ * const monitor = await readFromSmartBucket('price-history', 'monitor-abc');
+ */
+export async function readFromSmartBucket(bucketName, objectId) {
+    const client = getRaindropClient();
+    const bucketLocation = getSmartBucketLocation(bucketName);
+
+    if (!objectId) {
+        throw new Error('Object ID is required');
+    }
+
+    try {
+        const response = await callSdk('raindrop', options => client.bucket.get({
+            bucketLocation,
+            key: objectId
+        }, options));
+
+        if (!response.content) {
+            return null;
+        }
+
+        // Content is base64-encoded JSON, as written by saveToSmartBucket
+        return JSON.parse(Buffer.from(response.content, 'base64').toString('utf-8'));
+    } catch (error) {
+        if (error?.status === 404) {
+            return null;
+        }
+        console.error('Error reading from SmartBucket:', error);
+        throw error;
+    }
+}
+
+/**
+ * Read every JSON object whose key starts with a prefix, skipping any
+ * that fail to load
+ *
+ * @param {string} bucketName - Name of the bucket
+ * @param {string} prefix - Key prefix
+ * @returns {Promise<Array<Object>>} Parsed objects, in no particular order
+ *
+ * @example
+ * const rules = await readAllFromSmartBucket('price-history', 'alert-rule-');
+ */
+export async function readAllFromSmartBucket(bucketName, prefix) {
+    const objects = await listSmartBucket(bucketName, prefix);
+    const items = await Promise.all(objects.map(async obj => {
+        try {
+            return await readFromSmartBucket(bucketName, obj.key);
+        } catch (error) {
+            console.error(`Error reading ${obj.key} from SmartBucket:`, error);
+            return null;
+        }
+    }));
+
+    return items.filter(Boolean);
+}
+
+/**
+ * Delete an object from SmartBucket by its exact key
+ *
+ * @param {string} bucketName - Name of the bucket
+ * @param {string} objectId - Object key
+ * @returns {Promise<Object>} Delete response
+ */
+export async function deleteFromSmartBucket(bucketName, objectId) {
+    const client = getRaindropClient();
+    const bucketLocation = getSmartBucketLocation(bucketName);
+
+    if (!objectId) {
+        throw new Error('Object ID is required');
+    }
+
+    try {
+        const response = await callSdk('raindrop', options => client.bucket.delete({
+            bucketLocation,
+            key: objectId
+        }, options));
+
+        return response;
+    } catch (error) {
+        console.error('Error deleting from SmartBucket:', error);
+        throw error;
+    }
+}
+
 /**
  * Query SmartBucket for semantic search
  *
@@ -263,20 +390,20 @@ export async function querySmartBucket(bucketName, query, objectId = null) {
     try {
         if (objectId) {
             // Query specific document
-            const response = await client.query.documentQuery({
+            const response = await callSdk('raindrop', options => client.query.documentQuery({
                 bucketLocation,
                 objectId,
                 input: query,
                 requestId: `query-${Date.now()}`
-            });
+            }, options));
             return response;
         } else {
             // Query entire bucket
-            const response = await client.query.bucketQuery({
+            const response = await callSdk('raindrop', options => client.query.bucketQuery({
                 bucketLocation,
                 input: query,
                 requestId: `query-${Date.now()}`
-            });
+            }, options));
             return response;
         }
     } catch (error) {
@@ -305,11 +432,11 @@ export async function getFromSmartBucket(bucketName, objectId) {
 
     try {
         // Use search to find the specific object
-        const response = await client.search.create({
+        const response = await callSdk('raindrop', options => client.search.create({
             bucketLocation,
             query: objectId,
             limit: 1
-        });
+        }, options));
 
         if (response.results && response.results.length > 0) {
             return response.results[0];
@@ -342,11 +469,11 @@ export async function searchSmartBucket(bucketName, searchQuery, limit = 10) {
     }
 
     try {
-        const response = await client.search.create({
+        const response = await callSdk('raindrop', options => client.search.create({
             bucketLocation,
             query: searchQuery,
             limit
-        });
+        }, options));
 
         return response;
     } catch (error) {
@@ -364,6 +491,10 @@ export default {
     getFromSmartMemory,
     startSmartMemorySession,
     saveToSmartBucket,
+    listSmartBucket,
+    readFromSmartBucket,
+    readAllFromSmartBucket,
+    deleteFromSmartBucket,
     getFromSmartBucket,
     querySmartBucket,
     searchSmartBucket
@@ -0,0 +1,33 @@
+/**
+ * Hash a string into a 32-bit seed (FNV-1a)
+ */
+export function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic random number generator (mulberry32).
+ * The same seed always yields the same sequence of values in [0, 1).
+ */
+export function createSeededRandom(seed: string): () => number {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Pick an item from a list using the given generator
+ */
+export function pick<T>(items: T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)];
+}
@@ -0,0 +1,230 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CircuitOpenError,
+  UpstreamError,
+  configureService,
+  degradedServices,
+  fetchJson,
+  getServiceHealth,
+  resetResilience,
+} from './resilience';
+import { perplexityProvider } from './providers/perplexity';
+import { createStubModelClient, setExtractionModelClient } from './extraction';
+
+type Handler = (request: IncomingMessage, response: ServerResponse) => void;
+
+/**
+ * Local fake of an external service. Each request is answered by the next
+ * queued handler, or by the last one once the queue runs out.
+ */
+let server: Server;
+let baseUrl: string;
+let handlers: Handler[] = [];
+let requests: string[] = [];
+
+function respond(status: number, body: unknown = {}, headers: Record<string, string> = {}): Handler {
+  return (_request, response) => {
+    response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    response.end(JSON.stringify(body));
+  };
+}
+
+function hang(ms: number): Handler {
+  return (_request, response) => {
+    setTimeout(() => respond(200, { late: true })(_request, response), ms);
+  };
+}
+
+function serve(...queue: Handler[]): void {
+  handlers = queue;
+}
+
+const FAST = { timeoutMs: 200, retries: 2, baseDelayMs: 1, maxDelayMs: 5, failureThreshold: 2, resetAfterMs: 50 };
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    requests.push(`${request.method} ${request.url}`);
+    const handler = handlers.length > 1 ? handlers.shift()! : handlers[0];
+    handler(request, response);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+  resetResilience();
+  configureService('fake', FAST);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  setExtractionModelClient(null);
+});
+
+describe('retries and backoff', () => {
+  it('retries server errors until a call succeeds', async () => {
+    serve(respond(503), respond(502), respond(200, { ok: true }));
+
+    await expect(fetchJson('fake', `${baseUrl}/search`)).resolves.toEqual({ ok: true });
+    expect(requests).toHaveLength(3);
+  });
+
+  it('throws the last error once retries are used up', async () => {
+    serve(respond(500, { error: 'boom' }));
+
+    const error = await fetchJson('fake', `${baseUrl}/search`).catch(e => e);
+
+    expect(error).toBeInstanceOf(UpstreamError);
+    expect(error.status).toBe(500);
+    expect(requests).toHaveLength(FAST.retries + 1);
+  });
+
+  it('does not retry requests the service refused', async () => {
+    serve(respond(400, { error: 'bad query' }));
+
+    await expect(fetchJson('fake', `${baseUrl}/search`)).rejects.toMatchObject({ status: 400 });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('waits for Retry-After, up to the longest backoff', async () => {
+    configureService('fake', { maxDelayMs: 300 });
+    serve(respond(429, {}, { 'Retry-After': '0.2' }), respond(200, { ok: true }));
+
+    const started = Date.now();
+    await fetchJson('fake', `${baseUrl}/search`);
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(190);
+    expect(requests).toHaveLength(2);
+  });
+});
+
+describe('timeouts', () => {
+  it('aborts an attempt that outlasts the timeout and retries it', async () => {
+    configureService('fake', { timeoutMs: 50, retries: 1 });
+    serve(hang(500), respond(200, { ok: true }));
+
+    await expect(fetchJson('fake', `${baseUrl}/slow`)).resolves.toEqual({ ok: true });
+    expect(requests).toHaveLength(2);
+  });
+
+  it('fails with a timeout once every attempt is too slow', async () => {
+    configureService('fake', { timeoutMs: 50, retries: 1 });
+    serve(hang(500));
+
+    await expect(fetchJson('fake', `${baseUrl}/slow`)).rejects.toThrow('fake: timed out after 50ms');
+    expect(requests).toHaveLength(2);
+  });
+});
+
+describe('circuit breaker', () => {
+  beforeEach(() => {
+    configureService('fake', { retries: 0 });
+  });
+
+  it('opens after consecutive failed calls and stops calling the service', async () => {
+    serve(respond(503));
+
+    await expect(fetchJson('fake', `${baseUrl}/a`)).rejects.toBeInstanceOf(UpstreamError);
+    await expect(fetchJson('fake', `${baseUrl}/a`)).rejects.toBeInstanceOf(UpstreamError);
+    await expect(fetchJson('fake', `${baseUrl}/a`)).rejects.toBeInstanceOf(CircuitOpenError);
+
+    expect(requests).toHaveLength(FAST.failureThreshold);
+    expect(degradedServices()).toEqual([expect.objectContaining({ service: 'fake', state: 'open', consecutiveFailures: 2 })]);
+  });
+
+  it('does not count refused requests against the circuit', async () => {
+    serve(respond(404));
+
+    for (let i = 0; i < FAST.failureThreshold + 1; i++) {
+      await expect(fetchJson('fake', `${baseUrl}/missing`)).rejects.toMatchObject({ status: 404 });
+    }
+    expect(getServiceHealth()).toEqual([expect.objectContaining({ service: 'fake', state: 'closed', degraded: false })]);
+  });
+
+  it('lets one trial call through once open long enough, and closes when it succeeds', async () => {
+    serve(respond(503), respond(503), respond(200, { ok: true }));
+    await fetchJson('fake', `${baseUrl}/a`).catch(() => {});
+    await fetchJson('fake', `${baseUrl}/a`).catch(() => {});
+
+    await new Promise(resolve => setTimeout(resolve, FAST.resetAfterMs + 10));
+    await expect(fetchJson('fake', `${baseUrl}/a`)).resolves.toEqual({ ok: true });
+
+    expect(getServiceHealth()[0]).toMatchObject({ state: 'closed', consecutiveFailures: 0, degraded: false });
+  });
+
+  it('rejects other calls while the trial call is in flight', async () => {
+    serve(respond(503), respond(503), hang(30));
+    await fetchJson('fake', `${baseUrl}/a`).catch(() => {});
+    await fetchJson('fake', `${baseUrl}/a`).catch(() => {});
+    await new Promise(resolve => setTimeout(resolve, FAST.resetAfterMs + 10));
+
+    const trial = fetchJson('fake', `${baseUrl}/a`);
+    await expect(fetchJson('fake', `${baseUrl}/a`)).rejects.toBeInstanceOf(CircuitOpenError);
+    await expect(trial).resolves.toEqual({ late: true });
+    expect(requests).toHaveLength(3);
+  });
+
+  it('opens again when the trial call fails', async () => {
+    serve(respond(503));
+    await fetchJson('fake', `${baseUrl}/a`).catch(() => {});
+    await fetchJson('fake', `${baseUrl}/a`).catch(() => {});
+    await new Promise(resolve => setTimeout(resolve, FAST.resetAfterMs + 10));
+
+    await expect(fetchJson('fake', `${baseUrl}/a`)).rejects.toMatchObject({ status: 503 });
+    await expect(fetchJson('fake', `${baseUrl}/a`)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(requests).toHaveLength(3);
+  });
+
+  it('keeps a circuit per service', async () => {
+    configureService('other', { ...FAST, retries: 0 });
+    serve(respond(503), respond(503), respond(200, { ok: true }));
+    await fetchJson('fake', `${baseUrl}/a`).catch(() => {});
+    await fetchJson('fake', `${baseUrl}/a`).catch(() => {});
+
+    await expect(fetchJson('other', `${baseUrl}/b`)).resolves.toEqual({ ok: true });
+  });
+});
+
+describe('Perplexity provider against a local server', () => {
+  beforeEach(() => {
+    vi.stubEnv('PERPLEXITY_API_KEY', 'test-key');
+    vi.stubEnv('PERPLEXITY_BASE_URL', baseUrl);
+    configureService('perplexity', FAST);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('retries the search and extracts offers from the results', async () => {
+    serve(respond(503), respond(200, {
+      results: [{ url: 'https://air.example/paris', title: 'NYC to Paris', snippet: 'Round trip from $612 on Example Air' }],
+    }));
+    setExtractionModelClient(createStubModelClient(() =>
+      JSON.stringify([{ resultIndex: 0, price: 612, currency: 'USD', vendor: 'air.example', label: 'Example Air' }])));
+
+    const { offers } = await perplexityProvider.searchFlights({ origin: 'NYC', destination: 'Paris', departureDate: '2030-06-01' });
+
+    expect(requests).toEqual(['POST /search', 'POST /search']);
+    expect(offers).toEqual([expect.objectContaining({ price: 612, carrier: 'Example Air', bookingUrl: 'https://air.example/paris' })]);
+  });
+
+  it('throws once the circuit is open, so callers can fall back', async () => {
+    configureService('perplexity', { retries: 0 });
+    serve(respond(500));
+    const search = () => perplexityProvider.searchFlights({ origin: 'NYC', destination: 'Paris', departureDate: '2030-06-01' });
+
+    await expect(search()).rejects.toBeInstanceOf(UpstreamError);
+    await expect(search()).rejects.toBeInstanceOf(UpstreamError);
+    await expect(search()).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(requests).toHaveLength(2);
+  });
+});
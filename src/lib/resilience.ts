@@ -0,0 +1,312 @@
+import type { ServiceHealth, CircuitState } from '../types/travel';
+
+/**
+ * How calls to one external service are protected
+ */
+export interface ResiliencePolicy {
+  timeoutMs: number; // Per attempt
+  retries: number; // Extra attempts after a retryable failure
+  baseDelayMs: number; // Backoff before the first retry, doubled for each one after
+  maxDelayMs: number;
+  failureThreshold: number; // Consecutive failed calls that open the circuit
+  resetAfterMs: number; // How long an open circuit rejects calls before letting a trial through
+}
+
+/**
+ * Defaults per service. Search and extraction calls are slow; storage calls should not be.
+ * Notifications retry little here, since failed deliveries are retried later.
+ */
+const DEFAULT_POLICIES: Record<string, ResiliencePolicy> = {
+  perplexity: { timeoutMs: 15_000, retries: 2, baseDelayMs: 500, maxDelayMs: 4_000, failureThreshold: 5, resetAfterMs: 60_000 },
+  anthropic: { timeoutMs: 30_000, retries: 2, baseDelayMs: 1_000, maxDelayMs: 8_000, failureThreshold: 5, resetAfterMs: 60_000 },
+  raindrop: { timeoutMs: 10_000, retries: 2, baseDelayMs: 300, maxDelayMs: 3_000, failureThreshold: 5, resetAfterMs: 30_000 },
+  smtp: { timeoutMs: 15_000, retries: 1, baseDelayMs: 1_000, maxDelayMs: 4_000, failureThreshold: 5, resetAfterMs: 60_000 },
+  webhook: { timeoutMs: 10_000, retries: 1, baseDelayMs: 500, maxDelayMs: 2_000, failureThreshold: 5, resetAfterMs: 60_000 },
+};
+
+const FALLBACK_POLICY: ResiliencePolicy = DEFAULT_POLICIES.raindrop;
+
+/**
+ * HTTP statuses worth retrying: timeouts, rate limits and server errors
+ */
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+/**
+ * A failed call to an external service
+ */
+export class UpstreamError extends Error {
+  constructor(
+    public service: string,
+    message: string,
+    public status?: number,
+    public retryAfterMs?: number
+  ) {
+    super(`${service}: ${message}`);
+    this.name = 'UpstreamError';
+  }
+}
+
+/**
+ * Thrown without calling the service while its circuit is open
+ */
+export class CircuitOpenError extends UpstreamError {
+  constructor(service: string, retryAt: number) {
+    super(service, `circuit open after repeated failures, retrying after ${new Date(retryAt).toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+interface Breaker {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number;
+  trialInFlight: boolean;
+  lastError?: string;
+  lastFailureAt?: number;
+  lastSuccessAt?: number;
+}
+
+const policies = new Map<string, ResiliencePolicy>();
+const breakers = new Map<string, Breaker>();
+
+/**
+ * Override a service's policy, e.g. short timeouts against a local fake server
+ */
+export function configureService(service: string, policy: Partial<ResiliencePolicy>): void {
+  policies.set(service, { ...policyFor(service), ...policy });
+}
+
+/**
+ * Forget every policy override and circuit state
+ */
+export function resetResilience(): void {
+  policies.clear();
+  breakers.clear();
+}
+
+/**
+ * Services named '<kind>:<name>' (one per webhook host) have their own
+ * circuit but share their kind's defaults
+ */
+function policyFor(service: string): ResiliencePolicy {
+  return policies.get(service) || DEFAULT_POLICIES[service] || DEFAULT_POLICIES[service.split(':')[0]] || FALLBACK_POLICY;
+}
+
+function breakerFor(service: string): Breaker {
+  let breaker = breakers.get(service);
+  if (!breaker) {
+    breaker = { state: 'closed', consecutiveFailures: 0, openedAt: 0, trialInFlight: false };
+    breakers.set(service, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * HTTP status of an error from fetch or an SDK, if it has one
+ */
+function statusOf(error: any): number | undefined {
+  const status = error?.status ?? error?.statusCode;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Network errors and timeouts have no status and are retried; HTTP errors
+ * only when the status says the request may succeed later
+ */
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof CircuitOpenError) return false;
+  const status = statusOf(error);
+  return status === undefined || RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * Retry-After in milliseconds, from the header value (seconds or an HTTP date)
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isFinite(date) ? Math.max(0, date - Date.now()) : undefined;
+}
+
+function retryAfterOf(error: any): number | undefined {
+  if (typeof error?.retryAfterMs === 'number') return error.retryAfterMs;
+  const headers = error?.headers;
+  const value = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+  return parseRetryAfter(value);
+}
+
+/**
+ * Full-jitter exponential backoff, or the service's Retry-After when longer
+ */
+function backoffDelay(policy: ResiliencePolicy, attempt: number, error: unknown): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  const jittered = Math.random() * ceiling;
+  const retryAfter = retryAfterOf(error);
+  return retryAfter !== undefined ? Math.min(policy.maxDelayMs, Math.max(jittered, retryAfter)) : jittered;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run one attempt, aborting it after the policy's timeout
+ */
+async function attemptWithTimeout<T>(service: string, operation: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new UpstreamError(service, `timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([operation(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Let a call through unless the circuit is open. Once resetAfterMs has
+ * passed, a single trial call is let through (half-open).
+ */
+function admit(service: string, policy: ResiliencePolicy): void {
+  const breaker = breakerFor(service);
+  if (breaker.state === 'closed') return;
+
+  const retryAt = breaker.openedAt + policy.resetAfterMs;
+  if (breaker.state === 'open' && Date.now() >= retryAt) {
+    breaker.state = 'half-open';
+  }
+  if (breaker.state === 'half-open' && !breaker.trialInFlight) {
+    breaker.trialInFlight = true;
+    return;
+  }
+  throw new CircuitOpenError(service, retryAt);
+}
+
+function recordSuccess(service: string): void {
+  const breaker = breakerFor(service);
+  if (breaker.state !== 'closed') {
+    console.log(`✅ ${service} recovered, circuit closed`);
+  }
+  Object.assign(breaker, { state: 'closed', consecutiveFailures: 0, trialInFlight: false, lastSuccessAt: Date.now() });
+}
+
+function recordFailure(service: string, policy: ResiliencePolicy, error: unknown): void {
+  const breaker = breakerFor(service);
+  breaker.consecutiveFailures++;
+  breaker.trialInFlight = false;
+  breaker.lastError = error instanceof Error ? error.message : String(error);
+  breaker.lastFailureAt = Date.now();
+
+  if (breaker.state === 'half-open' || breaker.consecutiveFailures >= policy.failureThreshold) {
+    if (breaker.state !== 'open') {
+      console.warn(`🔌 ${service} circuit opened after ${breaker.consecutiveFailures} failures`);
+    }
+    breaker.state = 'open';
+    breaker.openedAt = Date.now();
+  }
+}
+
+/**
+ * Call an external service with its timeout, retries with jittered backoff
+ * and circuit breaker. The operation gets an AbortSignal that fires on
+ * timeout. Throws the last error once retries are used up, or a
+ * CircuitOpenError without calling the service while its circuit is open.
+ * Errors that are not worth retrying (4xx) don't count against the circuit.
+ */
+export async function callService<T>(service: string, operation: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const policy = policyFor(service);
+  admit(service, policy);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const result = await attemptWithTimeout(service, operation, policy.timeoutMs);
+      recordSuccess(service);
+      return result;
+    } catch (error) {
+      if (!isRetryable(error)) {
+        // The service answered; the request itself was refused (e.g. 400, 404)
+        recordSuccess(service);
+        throw error;
+      }
+      if (attempt >= policy.retries) {
+        recordFailure(service, policy, error);
+        throw error;
+      }
+
+      const delay = backoffDelay(policy, attempt, error);
+      console.warn(`🔁 ${service} attempt ${attempt + 1} failed (${error instanceof Error ? error.message : error}), retrying in ${Math.round(delay)}ms`);
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Request options for SDK clients (Anthropic, Raindrop): the abort signal,
+ * with the SDK's own retries turned off so they don't stack with ours
+ */
+export interface SdkRequestOptions {
+  signal: AbortSignal;
+  maxRetries: 0;
+}
+
+/**
+ * callService() for SDK calls
+ *
+ * @example
+ * await callSdk('raindrop', options => client.bucket.put({ ... }, options));
+ */
+export function callSdk<T>(service: string, request: (options: SdkRequestOptions) => Promise<T>): Promise<T> {
+  return callService(service, signal => request({ signal, maxRetries: 0 }));
+}
+
+/**
+ * POST or GET JSON through callService(). Non-2xx responses throw an
+ * UpstreamError carrying the status and any Retry-After.
+ */
+export function fetchJson<T = any>(service: string, url: string, init: RequestInit = {}): Promise<T> {
+  return callService(service, async signal => {
+    const response = await fetch(url, { ...init, signal });
+    if (!response.ok) {
+      const details = await response.text().catch(() => '');
+      throw new UpstreamError(
+        service,
+        `${response.status} ${response.statusText}${details ? ` - ${details.substring(0, 200)}` : ''}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+    return response.json() as Promise<T>;
+  });
+}
+
+/**
+ * Circuit state and recent failures of every service called so far
+ */
+export function getServiceHealth(): ServiceHealth[] {
+  return [...breakers.entries()].map(([service, breaker]) => {
+    const failingNow = breaker.lastFailureAt !== undefined && breaker.lastFailureAt > (breaker.lastSuccessAt ?? 0);
+    return {
+      service,
+      state: breaker.state,
+      degraded: breaker.state !== 'closed' || failingNow,
+      consecutiveFailures: breaker.consecutiveFailures,
+      lastError: breaker.lastError,
+      lastFailureAt: breaker.lastFailureAt ? new Date(breaker.lastFailureAt).toISOString() : undefined,
+      lastSuccessAt: breaker.lastSuccessAt ? new Date(breaker.lastSuccessAt).toISOString() : undefined,
+      retryAt: breaker.state === 'closed' ? undefined : new Date(breaker.openedAt + policyFor(service).resetAfterMs).toISOString(),
+    };
+  });
+}
+
+/**
+ * Services whose last call failed or whose circuit is not closed
+ */
+export function degradedServices(): ServiceHealth[] {
+  return getServiceHealth().filter(health => health.degraded);
+}
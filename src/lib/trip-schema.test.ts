@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { validateTripDetails, type TripSchemaOptions } from './trip-schema';
+
+const options: TripSchemaOptions = {
+  categories: [
+    { id: 'flight', budgetField: 'flightBudget', unit: 'traveler' },
+    { id: 'hotel', budgetField: 'hotelBudgetPerNight', unit: 'room-night' },
+    { id: 'car', budgetField: 'carBudgetPerDay', unit: 'day' },
+    { id: 'insurance', unit: 'traveler' },
+  ],
+};
+
+// Five nights, and a budget that covers every component for all of them
+const trip = {
+  origin: 'New York',
+  destination: 'Paris',
+  startDate: '2025-06-01',
+  endDate: '2025-06-06',
+  totalBudget: 2000,
+  flightBudget: 800,
+  hotelBudgetPerNight: 150,
+  carBudgetPerDay: 50,
+};
+
+function fieldsOf(input: unknown, schemaOptions = options): string[] {
+  return validateTripDetails(input, schemaOptions).map(error => error.field);
+}
+
+describe('validateTripDetails', () => {
+  it('accepts valid trip details', () => {
+    expect(validateTripDetails(trip, options)).toEqual([]);
+  });
+
+  it('requires an object, named by the path', () => {
+    expect(validateTripDetails(null, { ...options, path: 'tripDetails' })).toEqual([{ field: 'tripDetails', message: 'is required' }]);
+  });
+
+  it('reports every missing required field', () => {
+    expect(fieldsOf({})).toEqual(['origin', 'destination', 'startDate', 'endDate', 'totalBudget', 'flightBudget', 'hotelBudgetPerNight', 'carBudgetPerDay']);
+  });
+
+  it('rejects malformed dates and an end date before the start date', () => {
+    expect(validateTripDetails({ ...trip, startDate: '06/01/2025' }, options)).toContainEqual({ field: 'startDate', message: 'must be a date (YYYY-MM-DD)' });
+    expect(validateTripDetails({ ...trip, endDate: '2025-05-30' }, options)).toContainEqual({ field: 'endDate', message: 'must be on or after the start date' });
+  });
+
+  it('rejects negative budgets and a total budget of 0', () => {
+    expect(fieldsOf({ ...trip, hotelBudgetPerNight: -1 })).toEqual(['hotelBudgetPerNight']);
+    expect(validateTripDetails({ ...trip, totalBudget: 0 }, options)).toContainEqual({ field: 'totalBudget', message: 'must be more than 0' });
+  });
+
+  it('counts per-night and per-day budgets for every day of the trip', () => {
+    // 800 + 5 × 150 + 5 × 50 = 1800: each fits the total on its own, but they add up past it
+    expect(validateTripDetails({ ...trip, totalBudget: 1500 }, options)).toEqual([
+      { field: 'totalBudget', message: 'must cover the components\' budgets for the whole trip (1800)' },
+    ]);
+    expect(validateTripDetails({ ...trip, totalBudget: 1800 }, options)).toEqual([]);
+  });
+
+  it('accepts a per-night budget above the total when the trip is short enough', () => {
+    expect(validateTripDetails({ ...trip, endDate: '2025-06-02', totalBudget: 1000, hotelBudgetPerNight: 150 }, options)).toEqual([]);
+  });
+
+  it('adds in budgets kept in the budgets map', () => {
+    expect(fieldsOf({ ...trip, budgets: { insurance: 250 } })).toEqual(['totalBudget']);
+  });
+
+  it('leaves out components that are switched off', () => {
+    expect(validateTripDetails({ ...trip, totalBudget: 1500, components: { car: false, hotel: false } }, options)).toEqual([]);
+  });
+
+  it('rejects unknown components and budget ids', () => {
+    expect(validateTripDetails({ ...trip, budgets: { rail: 100 } }, options)).toEqual([
+      { field: 'budgets.rail', message: 'is not a known trip component (flight, hotel, car, insurance)' },
+    ]);
+  });
+
+  it('rejects legs out of order or outside the trip\'s dates', () => {
+    const legs = [
+      { destination: 'Paris', startDate: '2025-06-01', endDate: '2025-06-04' },
+      { destination: 'Lyon', startDate: '2025-06-03', endDate: '2025-06-07' },
+    ];
+    expect(fieldsOf({ ...trip, legs })).toEqual(['legs.1.startDate', 'legs.1.endDate']);
+  });
+
+  it('rejects preference fields the preference types don\'t define', () => {
+    expect(validateTripDetails({ ...trip, hotelPreferences: { starRating: 4, pool: true } }, options)).toEqual([
+      { field: 'hotelPreferences.pool', message: 'is not a known field' },
+    ]);
+  });
+});
@@ -0,0 +1,269 @@
+import type { FieldError, PreferenceMatching, TripCategory } from '../types/travel';
+
+// Imports types only, so the index form can bundle it and check trips before they are sent
+
+export const PREFERENCE_MATCHING_MODES: PreferenceMatching[] = ['rank', 'filter', 'report'];
+export const MAX_PARTY_SIZE = 9;
+export const MAX_BAGGAGE_COUNT = 5;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+/**
+ * Why a value is invalid, or null when it is valid. Messages read after the
+ * field name, e.g. 'endDate must be on or after the start date'.
+ */
+type Rule = (value: unknown) => string | null;
+
+/**
+ * The fields of an object and whether each must be present
+ */
+type Shape = Record<string, { rule: Rule; required?: boolean }>;
+
+export interface TripSchemaOptions {
+  // Registered categories: the only valid component and budget ids, which TripDetails field holds each one's budget and what it is per
+  categories: Pick<TripCategory, 'id' | 'budgetField' | 'unit'>[];
+  // Where the details sit in the request body, e.g. 'tripDetails'; error fields start with it
+  path?: string;
+}
+
+const text: Rule = value => typeof value === 'string' && value.trim() ? null : 'is required';
+
+const date: Rule = value => {
+  if (typeof value !== 'string' || !value) return 'is required';
+  return DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value)) ? null : 'must be a date (YYYY-MM-DD)';
+};
+
+const amount: Rule = value => typeof value === 'number' && Number.isFinite(value) && value >= 0 ? null : 'must be a number of 0 or more';
+
+const flag: Rule = value => typeof value === 'boolean' ? null : 'must be true or false';
+
+const textList: Rule = value => Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim())
+  ? null
+  : 'must be a list of names';
+
+function oneOf(values: readonly string[]): Rule {
+  return value => typeof value === 'string' && values.includes(value) ? null : `must be one of: ${values.join(', ')}`;
+}
+
+function integer(min: number, max: number): Rule {
+  return value => Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+    ? null
+    : `must be a whole number from ${min} to ${max}`;
+}
+
+/**
+ * Days (and so nights) from the start date to the end date, as pricing counts them
+ */
+function tripDays(startDate: string, endDate: string): number {
+  return Math.ceil((Date.parse(endDate) - Date.parse(startDate)) / (1000 * 60 * 60 * 24));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check an object's fields against a shape. Fields the shape doesn't know
+ * are errors, so misspelled preferences aren't silently ignored.
+ */
+function checkShape(value: unknown, shape: Shape, path: string, errors: FieldError[]): void {
+  if (!isObject(value)) {
+    errors.push({ field: path, message: 'must be an object' });
+    return;
+  }
+  for (const [key, { rule, required }] of Object.entries(shape)) {
+    if (value[key] === undefined) {
+      if (required) errors.push({ field: `${path}.${key}`, message: 'is required' });
+      continue;
+    }
+    const message = rule(value[key]);
+    if (message) errors.push({ field: `${path}.${key}`, message });
+  }
+  for (const key of Object.keys(value).filter(key => !(key in shape))) {
+    errors.push({ field: `${path}.${key}`, message: 'is not a known field' });
+  }
+}
+
+/**
+ * Check a map keyed by category id, e.g. components or budgets
+ */
+function checkCategoryMap(value: unknown, rule: Rule, path: string, categoryIds: string[], errors: FieldError[]): void {
+  if (!isObject(value)) {
+    errors.push({ field: path, message: 'must be an object keyed by trip component' });
+    return;
+  }
+  for (const [id, entry] of Object.entries(value)) {
+    const message = categoryIds.includes(id) ? rule(entry) : `is not a known trip component (${categoryIds.join(', ')})`;
+    if (message) errors.push({ field: `${path}.${id}`, message });
+  }
+}
+
+const FLIGHT_PREFERENCES: Shape = {
+  stops: { rule: oneOf(['direct', 'one-stop', 'multi-stop', 'any']) },
+  preferredAirlines: { rule: textList },
+  seatPreference: { rule: oneOf(['aisle', 'window', 'any']) },
+  extraLegroom: { rule: flag },
+  timeOfDay: { rule: oneOf(['morning', 'afternoon', 'evening', 'red-eye', 'any']) },
+  baggageCount: { rule: integer(0, MAX_BAGGAGE_COUNT) },
+};
+
+const HOTEL_PREFERENCES: Shape = {
+  starRating: { rule: integer(1, 5) },
+  roomType: { rule: oneOf(['single', 'double', 'suite', 'any']) },
+  amenities: { rule: textList },
+  cancellationPolicy: { rule: oneOf(['flexible', 'moderate', 'strict', 'any']) },
+};
+
+const CAR_RENTAL_PREFERENCES: Shape = {
+  vehicleType: { rule: oneOf(['economy', 'compact', 'midsize', 'fullsize', 'suv', 'luxury', 'any']) },
+  transmission: { rule: oneOf(['automatic', 'manual', 'any']) },
+  mileage: { rule: oneOf(['unlimited', 'limited']) },
+  features: { rule: textList },
+};
+
+// Components and budgets are checked against the registered categories
+const TRIP_LEG: Shape = {
+  destination: { rule: text, required: true },
+  startDate: { rule: date, required: true },
+  endDate: { rule: date, required: true },
+  needsHotel: { rule: flag },
+  needsCar: { rule: flag },
+};
+
+// Fields checked on their own; components, budgets, legs and preferences follow
+const TRIP_DETAILS: Shape = {
+  origin: { rule: text, required: true },
+  destination: { rule: text, required: true },
+  startDate: { rule: date, required: true },
+  endDate: { rule: date, required: true },
+  totalBudget: { rule: amount, required: true },
+  flightBudget: { rule: amount, required: true },
+  hotelBudgetPerNight: { rule: amount, required: true },
+  carBudgetPerDay: { rule: amount, required: true },
+  currency: { rule: value => typeof value === 'string' && CURRENCY_PATTERN.test(value) ? null : 'must be a 3-letter currency code, e.g. USD' },
+  tripType: { rule: oneOf(['round-trip', 'one-way']) },
+  adults: { rule: integer(1, MAX_PARTY_SIZE) },
+  children: { rule: integer(0, MAX_PARTY_SIZE) },
+  rooms: { rule: integer(1, MAX_PARTY_SIZE) },
+  budgetBasis: { rule: oneOf(['trip', 'per-person']) },
+  preferenceMatching: { rule: oneOf(PREFERENCE_MATCHING_MODES) },
+};
+
+/**
+ * Everything wrong with trip details, field by field, or an empty list when
+ * they can be priced. Fields are paths into TripDetails, e.g. 'endDate',
+ * 'legs.1.startDate', 'budgets.rail' or 'flightPreferences.stops'.
+ */
+export function validateTripDetails(input: unknown, { categories, path }: TripSchemaOptions): FieldError[] {
+  if (!isObject(input)) {
+    return [{ field: path || 'tripDetails', message: 'is required' }];
+  }
+
+  const errors: FieldError[] = [];
+  const categoryIds = categories.map(category => category.id);
+  const fieldError = (field: string) => errors.some(error => error.field === field);
+
+  for (const [field, { rule, required }] of Object.entries(TRIP_DETAILS)) {
+    if (input[field] === undefined || input[field] === null) {
+      if (required) errors.push({ field, message: 'is required' });
+      continue;
+    }
+    const message = rule(input[field]);
+    if (message) errors.push({ field, message });
+  }
+
+  const { startDate, endDate } = input as { startDate: string; endDate: string };
+  if (!fieldError('startDate') && !fieldError('endDate') && endDate < startDate) {
+    errors.push({ field: 'endDate', message: 'must be on or after the start date' });
+  }
+
+  if (input.components !== undefined) {
+    checkCategoryMap(input.components, flag, 'components', categoryIds, errors);
+  }
+  if (input.budgets !== undefined) {
+    checkCategoryMap(input.budgets, amount, 'budgets', categoryIds, errors);
+  }
+
+  // The components' budgets, over the whole trip, can't add up to more than the total
+  const totalBudget = input.totalBudget as number;
+  if (!fieldError('totalBudget')) {
+    if (totalBudget <= 0) {
+      errors.push({ field: 'totalBudget', message: 'must be more than 0' });
+    }
+    const datesValid = !fieldError('startDate') && !fieldError('endDate');
+    const components = isObject(input.components) ? input.components : {};
+    const budgets = isObject(input.budgets) ? input.budgets : {};
+    let committed = 0;
+    for (const { id, budgetField, unit } of categories) {
+      const field = budgetField || `budgets.${id}`;
+      const budget = budgetField ? input[budgetField] : budgets[id];
+      if (components[id] === false || typeof budget !== 'number' || fieldError(field)) continue;
+      // Per-night and per-day budgets apply every day of the trip; without valid dates they can't be added up
+      if (unit !== 'traveler' && !datesValid) continue;
+      committed += budget * (unit === 'traveler' ? 1 : tripDays(startDate, endDate));
+    }
+    if (totalBudget > 0 && committed > totalBudget) {
+      errors.push({
+        field: 'totalBudget',
+        message: `must cover the components' budgets for the whole trip (${Math.round(committed * 100) / 100})`,
+      });
+    }
+  }
+
+  if (input.legs !== undefined) {
+    if (!Array.isArray(input.legs)) {
+      errors.push({ field: 'legs', message: 'must be a list of itinerary legs' });
+    } else {
+      const legs: unknown[] = input.legs;
+      legs.forEach((leg, index) => {
+        const path = `legs.${index}`;
+        if (!isObject(leg)) {
+          errors.push({ field: path, message: 'must be an object' });
+          return;
+        }
+        const { components, ...fields } = leg;
+        checkShape(fields, TRIP_LEG, path, errors);
+        if (components !== undefined) {
+          checkCategoryMap(components, flag, `${path}.components`, categoryIds, errors);
+        }
+        if (fieldError(`${path}.startDate`) || fieldError(`${path}.endDate`)) return;
+
+        // Legs run in order, inside the trip's dates
+        const { startDate: legStart, endDate: legEnd } = leg as { startDate: string; endDate: string };
+        const previous = legs[index - 1];
+        const previousEnd = isObject(previous) ? previous.endDate : undefined;
+        if (legEnd < legStart) {
+          errors.push({ field: `${path}.endDate`, message: 'must be on or after the leg\'s start date' });
+        }
+        if (typeof previousEnd === 'string' && legStart < previousEnd) {
+          errors.push({ field: `${path}.startDate`, message: 'must be on or after the previous leg\'s end date' });
+        }
+        if (!fieldError('startDate') && legStart < startDate) {
+          errors.push({ field: `${path}.startDate`, message: 'must be on or after the trip\'s start date' });
+        }
+        if (!fieldError('endDate') && legEnd > endDate) {
+          errors.push({ field: `${path}.endDate`, message: 'must be on or before the trip\'s end date' });
+        }
+      });
+    }
+  }
+
+  const preferences: [string, Shape][] = [
+    ['flightPreferences', FLIGHT_PREFERENCES],
+    ['hotelPreferences', HOTEL_PREFERENCES],
+    ['carRentalPreferences', CAR_RENTAL_PREFERENCES],
+  ];
+  for (const [field, shape] of preferences) {
+    if (input[field] !== undefined) checkShape(input[field], shape, field, errors);
+  }
+
+  return path ? errors.map(error => ({ ...error, field: `${path}.${error.field}` })) : errors;
+}
+
+/**
+ * One line for an error response's `error`, e.g. 'endDate must be on or after the start date'
+ */
+export function describeFieldError(error: FieldError): string {
+  return `${error.field} ${error.message}`;
+}
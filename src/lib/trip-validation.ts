@@ -0,0 +1,12 @@
+import type { FieldError } from '../types/travel';
+import { listTripCategories } from './categories';
+import { validateTripDetails } from './trip-schema';
+
+/**
+ * Everything that stops trip details being priced, field by field, or an
+ * empty list when they can be. Components and budgets must name registered
+ * categories.
+ */
+export function tripDetailsErrors(tripDetails: unknown, path?: string): FieldError[] {
+  return validateTripDetails(tripDetails, { categories: listTripCategories(), path });
+}
@@ -0,0 +1,188 @@
+import type { DealAlert, FieldError, Trip, TripDetails, TripOverview, TripStatus } from '../types/travel';
+import { readFromSmartBucket, readAllFromSmartBucket, saveToSmartBucket, deleteFromSmartBucket } from './raindrop.js';
+import { getPriceHistoryBucket, loadTripPriceHistories, tripHistoryKey } from './price-history';
+import { listMonitors, syncTripMonitors } from './monitoring';
+import { listDealAlerts } from './alerts';
+import { DEFAULT_CURRENCY } from './currency';
+import { tripDetailsErrors } from './trip-validation';
+import { randomUUID } from 'crypto';
+
+export type TripAction = 'archive' | 'restore';
+export const TRIP_ACTIONS: TripAction[] = ['archive', 'restore'];
+export const TRIP_STATUSES: TripStatus[] = ['active', 'archived'];
+
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Checks drawn per trip on the overview, and how many of the user's latest
+ * alerts it searches for each trip's
+ */
+const OVERVIEW_CHECKS = 20;
+const OVERVIEW_ALERTS = 100;
+
+const TRIP_PREFIX = 'saved-trip-';
+
+/**
+ * Everything that stops a trip being stored, by request body field, or an
+ * empty list when it can be
+ */
+export function tripErrors(fields: { name?: unknown; tripDetails?: TripDetails }): FieldError[] {
+  const errors = tripDetailsErrors(fields.tripDetails, 'tripDetails');
+  if (fields.name !== undefined && (typeof fields.name !== 'string' || !fields.name.trim() || fields.name.length > MAX_NAME_LENGTH)) {
+    errors.unshift({ field: 'name', message: `must be 1 to ${MAX_NAME_LENGTH} characters` });
+  }
+  return errors;
+}
+
+/**
+ * Why an action can't be applied to a trip, or null when it can
+ */
+export function tripActionError(trip: Trip, action: TripAction): string | null {
+  if (action === 'archive' && trip.status === 'archived') return 'Trip is already archived';
+  if (action === 'restore' && trip.status === 'active') return 'Trip is not archived';
+  return null;
+}
+
+/**
+ * Name for a trip saved without one, e.g. 'NYC → Paris → Rome (2025-06-01)'
+ */
+export function defaultTripName(tripDetails: TripDetails): string {
+  const stops = tripDetails.legs?.length ? tripDetails.legs.map(leg => leg.destination) : [tripDetails.destination];
+  return `${[tripDetails.origin, ...stops].join(' → ')} (${tripDetails.startDate})`.slice(0, MAX_NAME_LENGTH);
+}
+
+/**
+ * Trips are keyed by user, so a user's are listed without reading anyone else's
+ */
+function tripKey(userId: string, id: string): string {
+  return `${TRIP_PREFIX}${userId}-${id}`;
+}
+
+export async function saveTrip(trip: Trip): Promise<void> {
+  await saveToSmartBucket(getPriceHistoryBucket(), tripKey(trip.userId, trip.id), trip);
+}
+
+export async function getTrip(userId: string, id: string): Promise<Trip | null> {
+  return readFromSmartBucket(getPriceHistoryBucket(), tripKey(userId, id));
+}
+
+/**
+ * The trip, unless it belongs to another user than the one signed in
+ */
+export async function findTrip(id: string | undefined, userId: string | undefined): Promise<Trip | null> {
+  const trip = id && userId ? await getTrip(userId, id) : null;
+  return trip && userId && trip.userId === userId ? trip : null;
+}
+
+/**
+ * A user's trips, newest first, optionally only those with one status
+ */
+export async function listTrips(userId: string, status?: TripStatus): Promise<Trip[]> {
+  const trips: Trip[] = await readAllFromSmartBucket(getPriceHistoryBucket(), `${TRIP_PREFIX}${userId}-`);
+  // One user's id may begin another's, so the prefix alone isn't enough
+  return trips
+    .filter(trip => trip.userId === userId && (!status || trip.status === status))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function createTrip(userId: string, fields: { name?: string; tripDetails: TripDetails }, now = Date.now()): Promise<Trip> {
+  const timestamp = new Date(now).toISOString();
+  const trip: Trip = {
+    id: randomUUID(),
+    userId,
+    name: fields.name?.trim() || defaultTripName(fields.tripDetails),
+    tripDetails: fields.tripDetails,
+    status: 'active',
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+  await saveTrip(trip);
+  return trip;
+}
+
+/**
+ * The trip with a new name or details. Its monitors check the new details
+ * from their next run.
+ */
+export async function updateTrip(trip: Trip, fields: { name?: string; tripDetails?: TripDetails }, now = Date.now()): Promise<Trip> {
+  if (fields.tripDetails) {
+    await syncTripMonitors(trip.userId, trip.id, fields.tripDetails, now);
+  }
+  return {
+    ...trip,
+    name: fields.name?.trim() || trip.name,
+    tripDetails: fields.tripDetails || trip.tripDetails,
+    updatedAt: new Date(now).toISOString(),
+  };
+}
+
+/**
+ * The trip after an archive or restore. Archiving stops the trip's monitors.
+ */
+export async function applyTripAction(trip: Trip, action: TripAction, now = Date.now()): Promise<Trip> {
+  const timestamp = new Date(now).toISOString();
+  if (action === 'archive') {
+    await syncTripMonitors(trip.userId, trip.id, null, now);
+    return { ...trip, status: 'archived', archivedAt: timestamp, updatedAt: timestamp };
+  }
+  return { ...trip, status: 'active', archivedAt: undefined, updatedAt: timestamp };
+}
+
+/**
+ * Delete a trip and stop its monitors. Its price checks stay in the user's history.
+ */
+export async function deleteTrip(trip: Trip, now = Date.now()): Promise<void> {
+  await syncTripMonitors(trip.userId, trip.id, null, now);
+  await deleteFromSmartBucket(getPriceHistoryBucket(), tripKey(trip.userId, trip.id));
+}
+
+/**
+ * Whether an alert was raised for the trip. Alerts from before the trip
+ * was saved are matched by route and dates.
+ */
+function isTripAlert(alert: DealAlert, trip: Trip): boolean {
+  return alert.snapshot?.tripId
+    ? alert.snapshot.tripId === trip.id
+    : tripHistoryKey(alert.snapshot?.tripDetails || {}) === tripHistoryKey(trip.tripDetails);
+}
+
+/**
+ * A user's trips, newest first, each with its latest and recent checks, its
+ * monitor and the alerts it raised
+ */
+export async function listTripOverviews(userId: string, status?: TripStatus): Promise<TripOverview[]> {
+  const bucketName = getPriceHistoryBucket();
+  const [trips, monitors, alerts] = await Promise.all([
+    listTrips(userId, status),
+    listMonitors(userId),
+    listDealAlerts(userId, OVERVIEW_ALERTS),
+  ]);
+  const histories = await loadTripPriceHistories(bucketName, userId, trips.map(trip => trip.id), OVERVIEW_CHECKS);
+
+  return trips.map((trip): TripOverview => {
+    const history = (histories.get(trip.id) || [])
+      .filter(snapshot => typeof snapshot.totalCost === 'number');
+    const latest = history[0];
+    const tripAlerts = alerts.filter(alert => isTripAlert(alert, trip));
+
+    return {
+      trip,
+      latest: latest ? {
+        timestamp: String(latest.timestamp),
+        totalCost: latest.totalCost!,
+        totalBudget: latest.costs?.totalBudget ?? trip.tripDetails.totalBudget,
+        currency: latest.currency || DEFAULT_CURRENCY,
+        withinTotalBudget: latest.withinTotalBudget ?? false,
+      } : null,
+      recent: history.slice().reverse().map(snapshot => ({
+        timestamp: String(snapshot.timestamp),
+        totalCost: snapshot.totalCost!,
+        withinTotalBudget: snapshot.withinTotalBudget ?? false,
+      })),
+      // Monitors are listed oldest first, so the trip's latest one wins
+      monitor: monitors.filter(monitor => monitor.tripId === trip.id && monitor.status !== 'stopped').pop() || null,
+      alertCount: tripAlerts.length,
+      lastAlert: tripAlerts[0] ? { message: tripAlerts[0].message, triggeredAt: tripAlerts[0].triggeredAt } : null,
+    };
+  });
+}
@@ -0,0 +1,53 @@
+import { defineMiddleware } from 'astro:middleware';
+import { readSessionToken, SESSION_COOKIE } from './lib/auth';
+
+/**
+ * API routes that work without signing in: signing in itself, confirming
+ * an alert address from its emailed link, the scheduler (which sends
+ * MONITOR_RUN_SECRET) and the platform demo pages' routes. Every other
+ * route reads or writes a user's data.
+ */
+const PUBLIC_API_PREFIXES = ['/api/auth/'];
+const PUBLIC_API_ROUTES = ['/api/notifications/confirm', '/api/monitors/run', '/api/blob', '/api/blobs', '/api/revalidate'];
+
+// Pages that only make sense signed in; visitors are sent to /login first
+const SIGNED_IN_PAGES = ['/dashboard', '/trips', '/smartmemory', '/upload', '/search'];
+
+function isPublicApiRoute(pathname: string): boolean {
+  const path = pathname.replace(/\/$/, '');
+  return PUBLIC_API_PREFIXES.some(prefix => pathname.startsWith(prefix)) || PUBLIC_API_ROUTES.includes(path);
+}
+
+/**
+ * Resolve the signed-in user from the session cookie into `locals.user`,
+ * and turn away requests that need one without it
+ */
+export const onRequest = defineMiddleware(async ({ cookies, url, locals, redirect }, next) => {
+  const token = cookies.get(SESSION_COOKIE)?.value;
+  try {
+    locals.user = token ? readSessionToken(token) : null;
+  } catch (error) {
+    console.error('❌ Error reading session:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to read session',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  if (locals.user) {
+    return next();
+  }
+  if (url.pathname.startsWith('/api/') && !isPublicApiRoute(url.pathname)) {
+    return new Response(
+      JSON.stringify({ error: 'Sign in required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+  if (SIGNED_IN_PAGES.includes(url.pathname.replace(/\/$/, ''))) {
+    return redirect(`/login?next=${encodeURIComponent(url.pathname + url.search)}`);
+  }
+  return next();
+});
@@ -1,11 +1,21 @@
 import type { APIRoute } from 'astro';
 import Raindrop from '@liquidmetal-ai/lm-raindrop';
 import Anthropic from '@anthropic-ai/sdk';
+import { callSdk } from '../../lib/resilience';
+import { claimMemorySession, ownsMemorySession } from '../../lib/memory-sessions';
 
 export const prerender = false;
 
-export const POST: APIRoute = async ({ request }) => {
+export const POST: APIRoute = async ({ request, locals }) => {
     try {
+        const userId = locals.user?.id;
+        if (!userId) {
+            return new Response(
+                JSON.stringify({ error: 'Sign in required' }),
+                { status: 401, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
         const { message, sessionId } = await request.json();
 
         if (!message) {
@@ -62,25 +72,32 @@ export const POST: APIRoute = async ({ request }) => {
         const timings: Record<string, number> = {};
         const startTime = Date.now();
 
-        // Start or get session
+        // Start or get session; only the user who started a session can read its memories
         let currentSessionId = sessionId;
+        if (currentSessionId && !await ownsMemorySession(currentSessionId, userId)) {
+            return new Response(
+                JSON.stringify({ error: 'Session not found' }),
+                { status: 404, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
         if (!currentSessionId) {
             const sessionStart = Date.now();
-            const session = await raindrop.startSession.create({
+            const session = await callSdk('raindrop', options => raindrop.startSession.create({
                 smartMemoryLocation: smartMemoryLocation,
-            });
+            }, options));
             currentSessionId = session.sessionId;
+            await claimMemorySession(currentSessionId, userId);
             timings.startSession = Date.now() - sessionStart;
         }
 
         // Retrieve last 5 messages from working memory
         const memoryStart = Date.now();
-        const memorySearch = await raindrop.getMemory.retrieve({
+        const memorySearch = await callSdk('raindrop', options => raindrop.getMemory.retrieve({
             sessionId: currentSessionId,
             smartMemoryLocation: smartMemoryLocation,
             timeline: 'conversation',
             nMostRecent: 5,
-        });
+        }, options));
         timings.getMemory = Date.now() - memoryStart;
 
         // Build context from last 5 messages
@@ -90,7 +107,7 @@ export const POST: APIRoute = async ({ request }) => {
 
         // Call Claude via Netlify AI Gateway
         const modelStart = Date.now();
-        const response = await anthropic.messages.create({
+        const response = await callSdk('anthropic', options => anthropic.messages.create({
             model: 'claude-sonnet-4-5-20250929',
             max_tokens: 1024,
             system: `You are a helpful AI assistant with access to your conversation memory. Here are relevant past memories:\n\n${memoryContext}\n\nUse this context to provide personalized responses. If the user asks about previous conversations, reference these memories.`,
@@ -100,20 +117,20 @@ export const POST: APIRoute = async ({ request }) => {
                     content: message,
                 },
             ],
-        });
+        }, options));
         timings.modelCall = Date.now() - modelStart;
 
         const assistantMessage = response.content[0].type === 'text' ? response.content[0].text : '';
 
         // Store this interaction in memory
         const putMemoryStart = Date.now();
-        await raindrop.putMemory.create({
+        await callSdk('raindrop', options => raindrop.putMemory.create({
             sessionId: currentSessionId,
             smartMemoryLocation: smartMemoryLocation,
             content: `User said: "${message}". I responded: "${assistantMessage}"`,
             agent: 'demo-agent',
             timeline: 'conversation',
-        });
+        }, options));
         timings.putMemory = Date.now() - putMemoryStart;
 
         timings.total = Date.now() - startTime;
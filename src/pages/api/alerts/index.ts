@@ -0,0 +1,37 @@
+import type { APIRoute } from 'astro';
+import { listDealAlerts } from '../../../lib/alerts';
+
+/**
+ * A user's triggered deal alerts, newest first, each with the price check
+ * that fired it
+ *
+ * GET /api/alerts?limit=20
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+  const userId = locals.user?.id;
+  const limit = parseInt(url.searchParams.get('limit') || '20', 10);
+
+  if (!userId) {
+    return new Response(
+      JSON.stringify({ error: 'Sign in required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const alerts = await listDealAlerts(userId, limit);
+    return new Response(
+      JSON.stringify({ userId, count: alerts.length, alerts }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('❌ Error listing deal alerts:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to list deal alerts',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,83 @@
+import type { APIRoute } from 'astro';
+import type { AlertRule } from '../../../../types/travel';
+import { getAlertRule, saveAlertRule, deleteAlertRule, alertRuleError, readRuleFields } from '../../../../lib/alerts';
+
+/**
+ * The rule, unless it belongs to another user than the one signed in
+ */
+async function findRule(id: string | undefined, userId: string | undefined): Promise<AlertRule | null> {
+  const rule = id && userId ? await getAlertRule(userId, id) : null;
+  return rule && userId && rule.userId === userId ? rule : null;
+}
+
+function notFound(): Response {
+  return new Response(
+    JSON.stringify({ error: 'Alert rule not found' }),
+    { status: 404, headers: { 'Content-Type': 'application/json' } }
+  );
+}
+
+/**
+ * Change a rule, e.g. { enabled: false } or a new threshold or cooldown.
+ * The rule's type can't change.
+ *
+ * PATCH /api/alerts/rules/:id
+ */
+export const PATCH: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const { type, ...changes } = readRuleFields(await request.json());
+    const rule = await findRule(params.id, locals.user?.id);
+    if (!rule) {
+      return notFound();
+    }
+
+    const updated: AlertRule = { ...rule, ...changes, updatedAt: new Date().toISOString() };
+    const validationError = type && type !== rule.type ? 'A rule\'s type can\'t be changed' : alertRuleError(updated);
+    if (validationError) {
+      return new Response(
+        JSON.stringify({ error: validationError }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    await saveAlertRule(updated);
+    return new Response(
+      JSON.stringify(updated),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('❌ Error updating alert rule:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to update alert rule',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+/**
+ * DELETE /api/alerts/rules/:id
+ * Alerts the rule already raised are kept.
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  try {
+    const rule = await findRule(params.id, locals.user?.id);
+    if (!rule) {
+      return notFound();
+    }
+
+    await deleteAlertRule(rule);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error('❌ Error deleting alert rule:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to delete alert rule',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,78 @@
+import type { APIRoute } from 'astro';
+import { listAlertRules, createAlertRule, alertRuleError, readRuleFields } from '../../../../lib/alerts';
+
+/**
+ * A user's deal alert rules
+ *
+ * GET /api/alerts/rules
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  const userId = locals.user?.id;
+  if (!userId) {
+    return new Response(
+      JSON.stringify({ error: 'Sign in required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const rules = await listAlertRules(userId);
+    return new Response(
+      JSON.stringify({ userId, count: rules.length, rules }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('❌ Error listing alert rules:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to list alert rules',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+/**
+ * Add a deal alert rule, checked after every price check of the user's trips
+ *
+ * POST /api/alerts/rules
+ * Body: { type, category?, threshold?, percent?, windowDays?, stableChecks?, cooldownMinutes?, enabled? }
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Sign in required' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const fields = readRuleFields(await request.json());
+    const validationError = alertRuleError(fields);
+    if (validationError) {
+      return new Response(
+        JSON.stringify({ error: validationError }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const rule = await createAlertRule(userId, fields);
+    console.log(`🚨 Added ${rule.type} alert rule ${rule.id}${rule.category ? ` for ${rule.category}` : ''}`);
+
+    return new Response(
+      JSON.stringify(rule),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('❌ Error creating alert rule:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to create alert rule',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,31 @@
+import type { APIRoute } from 'astro';
+import { createSessionToken, recordSignIn, redeemMagicLink, sessionCookieOptions, signInRedirect, SESSION_COOKIE } from '../../../lib/auth';
+
+/**
+ * Where emailed sign-in links lead: signs the user in and opens `next`
+ *
+ * GET /api/auth/callback?token=<token>&next=<path>
+ * - Used, expired or unknown links go back to /login?error=link
+ */
+export const GET: APIRoute = async ({ url, cookies, redirect }) => {
+  try {
+    const token = url.searchParams.get('token');
+    const account = token ? await redeemMagicLink(token) : null;
+    if (!account) {
+      return redirect('/login?error=link');
+    }
+
+    const user = await recordSignIn(account);
+    cookies.set(SESSION_COOKIE, createSessionToken(user), sessionCookieOptions(url));
+    return redirect(signInRedirect(url.searchParams.get('next')));
+  } catch (error) {
+    console.error('❌ Error redeeming sign-in link:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to sign in',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
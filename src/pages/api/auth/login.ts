@@ -0,0 +1,39 @@
+import type { APIRoute } from 'astro';
+import { authenticate, createSessionToken, recordSignIn, sessionCookieOptions, SESSION_COOKIE } from '../../../lib/auth';
+
+/**
+ * Sign in with a password
+ *
+ * POST /api/auth/login
+ * Body: { email, password }
+ */
+export const POST: APIRoute = async ({ request, cookies, url }) => {
+  try {
+    const { email, password } = await request.json();
+
+    const account = typeof email === 'string' && typeof password === 'string' ? await authenticate(email, password) : null;
+    if (!account) {
+      return new Response(
+        JSON.stringify({ error: 'Wrong email or password' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const user = await recordSignIn(account);
+    cookies.set(SESSION_COOKIE, createSessionToken(user), sessionCookieOptions(url));
+
+    return new Response(
+      JSON.stringify({ user }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('❌ Error signing in:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to sign in',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
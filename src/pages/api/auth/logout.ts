@@ -0,0 +1,10 @@
+import type { APIRoute } from 'astro';
+import { SESSION_COOKIE } from '../../../lib/auth';
+
+/**
+ * POST /api/auth/logout
+ */
+export const POST: APIRoute = async ({ cookies }) => {
+  cookies.delete(SESSION_COOKIE, { path: '/' });
+  return new Response(null, { status: 204 });
+};
@@ -0,0 +1,50 @@
+import type { APIRoute } from 'astro';
+import { createMagicLink, emailError, magicLinkUrl, MAGIC_LINK_TTL_MINUTES } from '../../../lib/auth';
+import { emailConfigured, sendEmail } from '../../../lib/notifications/email';
+import { renderSignInEmail } from '../../../lib/notifications/templates';
+
+/**
+ * Email a one-time sign-in link. The first sign-in creates the account.
+ *
+ * POST /api/auth/magic-link
+ * Body: { email, next? } (next: page to open after signing in, default /trips)
+ * - Answers the same whether or not the email has an account
+ */
+export const POST: APIRoute = async ({ request, url }) => {
+  try {
+    const { email, next } = await request.json();
+
+    const validationError = emailError(email);
+    if (validationError) {
+      return new Response(
+        JSON.stringify({ error: validationError }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!emailConfigured()) {
+      return new Response(
+        JSON.stringify({ error: 'Email sign-in is not configured on this server (SMTP_HOST)' }),
+        { status: 503, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const token = await createMagicLink(email);
+    await sendEmail(email.trim(), renderSignInEmail(magicLinkUrl(token, next, url), MAGIC_LINK_TTL_MINUTES));
+    console.log('✉️ Sign-in link sent');
+
+    return new Response(
+      JSON.stringify({ sent: true, expiresInMinutes: MAGIC_LINK_TTL_MINUTES }),
+      { status: 202, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('❌ Error sending sign-in link:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to send sign-in link',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,20 @@
+import type { APIRoute } from 'astro';
+
+/**
+ * The signed-in user
+ *
+ * GET /api/auth/me
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  if (!locals.user) {
+    return new Response(
+      JSON.stringify({ error: 'Sign in required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ user: locals.user }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+};
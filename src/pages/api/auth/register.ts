@@ -0,0 +1,57 @@
+import type { APIRoute } from 'astro';
+import { createMagicLink, emailError, getUserByEmail, hashPassword, magicLinkUrl, passwordError, MAGIC_LINK_TTL_MINUTES } from '../../../lib/auth';
+import { emailConfigured, sendEmail } from '../../../lib/notifications/email';
+import { renderSignInEmail, renderSignUpEmail } from '../../../lib/notifications/templates';
+
+/**
+ * Sign up with a password. The account is created, with that password, when
+ * the emailed confirmation link is opened, so only the owner of an email can
+ * set its password.
+ *
+ * POST /api/auth/register
+ * Body: { email, password, next? } (next: page to open after confirming, default /trips)
+ * - Answers the same whether or not the email has an account; an existing
+ *   account is sent an ordinary sign-in link and keeps its password
+ */
+export const POST: APIRoute = async ({ request, url }) => {
+  try {
+    const { email, password, next } = await request.json();
+
+    const validationError = emailError(email) || passwordError(password);
+    if (validationError) {
+      return new Response(
+        JSON.stringify({ error: validationError }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!emailConfigured()) {
+      return new Response(
+        JSON.stringify({ error: 'Sign-up is not configured on this server (SMTP_HOST): it confirms emails with a link' }),
+        { status: 503, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Hashed either way, so an existing account doesn't answer faster
+    const passwordHash = await hashPassword(password);
+    const existing = await getUserByEmail(email);
+    const token = await createMagicLink(email, existing ? undefined : passwordHash);
+    const link = magicLinkUrl(token, next, url);
+    await sendEmail(email.trim(), existing ? renderSignInEmail(link, MAGIC_LINK_TTL_MINUTES) : renderSignUpEmail(link, MAGIC_LINK_TTL_MINUTES));
+    console.log('✉️ Sign-up confirmation sent');
+
+    return new Response(
+      JSON.stringify({ sent: true, expiresInMinutes: MAGIC_LINK_TTL_MINUTES }),
+      { status: 202, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('❌ Error signing up:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to create account',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
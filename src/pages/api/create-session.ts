@@ -1,10 +1,20 @@
 import type { APIRoute } from 'astro';
 import Raindrop from '@liquidmetal-ai/lm-raindrop';
+import { callSdk } from '../../lib/resilience';
+import { claimMemorySession } from '../../lib/memory-sessions';
 
 export const prerender = false;
 
-export const POST: APIRoute = async ({ request }) => {
+export const POST: APIRoute = async ({ locals }) => {
     try {
+        const userId = locals.user?.id;
+        if (!userId) {
+            return new Response(
+                JSON.stringify({ error: 'Sign in required' }),
+                { status: 401, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
         const raindropApiKey = import.meta.env.RAINDROP_API_KEY || process.env.RAINDROP_API_KEY;
         const smartMemoryName = import.meta.env.RAINDROP_SMARTMEMORY_NAME || process.env.RAINDROP_SMARTMEMORY_NAME;
         const applicationName = import.meta.env.RAINDROP_APPLICATION_NAME || process.env.RAINDROP_APPLICATION_NAME;
@@ -36,9 +46,10 @@ export const POST: APIRoute = async ({ request }) => {
         };
 
         const startTime = Date.now();
-        const session = await raindrop.startSession.create({
+        const session = await callSdk('raindrop', options => raindrop.startSession.create({
             smartMemoryLocation: smartMemoryLocation,
-        });
+        }, options));
+        await claimMemorySession(session.sessionId, userId);
         const timings = {
             startSession: Date.now() - startTime,
         };
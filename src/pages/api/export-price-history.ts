@@ -0,0 +1,112 @@
+import type { APIRoute } from 'astro';
+import { exportPriceHistory, EXPORT_FORMATS, type ExportFilters, type ExportFormat } from '../../lib/price-export';
+import { listTripCategories } from '../../lib/categories';
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * A `from` or `to` query param as ms since the epoch. A date without a time
+ * covers the whole (UTC) day, so `to=2025-03-31` includes checks on the 31st.
+ */
+function parseTime(value: string | null, endOfDay: boolean): number | undefined | null {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) return null;
+  return DATE_ONLY.test(value) && endOfDay ? time + 86_400_000 - 1 : time;
+}
+
+/**
+ * Download the signed-in user's price history, or one trip's, oldest first
+ *
+ * GET /api/export-price-history
+ * Query params:
+ * - format: csv (default), jsonl or xlsx
+ * - from, to: Only checks taken between these dates or times (ISO 8601)
+ * - categories: Comma-separated category ids to export (default: all)
+ * - tripId: Only checks of this stored trip
+ * - origin, destination, startDate, endDate: Only checks of matching trips
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+  try {
+    const userId = locals.user?.id;
+    const format = (url.searchParams.get('format') || 'csv') as ExportFormat;
+
+    const badRequest = (error: string) => new Response(
+      JSON.stringify({ error }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Sign in required' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    if (!Object.hasOwn(EXPORT_FORMATS, format)) {
+      return badRequest(`format must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}`);
+    }
+
+    const from = parseTime(url.searchParams.get('from'), false);
+    const to = parseTime(url.searchParams.get('to'), true);
+    if (from === null || to === null) {
+      return badRequest('from and to must be ISO 8601 dates or times');
+    }
+    if (from !== undefined && to !== undefined && from > to) {
+      return badRequest('from must not be after to');
+    }
+
+    const categories = (url.searchParams.get('categories') || '').split(',').map(id => id.trim()).filter(Boolean);
+    const knownCategories = listTripCategories().map(category => category.id);
+    const unknown = categories.filter(id => !knownCategories.includes(id));
+    if (unknown.length > 0) {
+      return badRequest(`Unknown categories: ${unknown.join(', ')} (known: ${knownCategories.join(', ')})`);
+    }
+
+    const bucketName = process.env.RAINDROP_SMARTBUCKET_NAME || import.meta.env.RAINDROP_SMARTBUCKET_NAME;
+    if (!bucketName) {
+      return new Response(
+        JSON.stringify({
+          error: 'RAINDROP_SMARTBUCKET_NAME environment variable not set',
+          details: 'Raindrop integration not configured',
+        }),
+        { status: 503, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const filters: ExportFilters = {
+      from,
+      to,
+      categories,
+      tripId: url.searchParams.get('tripId') || undefined,
+      trip: {
+        origin: url.searchParams.get('origin') || undefined,
+        destination: url.searchParams.get('destination') || undefined,
+        startDate: url.searchParams.get('startDate') || undefined,
+        endDate: url.searchParams.get('endDate') || undefined,
+      },
+    };
+
+    console.log(`📤 Exporting price history for user ${userId} as ${format}`);
+
+    const { contentType, extension } = EXPORT_FORMATS[format];
+    const filename = `price-history-${userId.replace(/[^\w-]/g, '_')}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+    return new Response(exportPriceHistory(bucketName, userId, format, filters), {
+      status: 200,
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('❌ Error in export-price-history:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to export price history',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,56 @@
+import type { APIRoute } from 'astro';
+import type { TripDetails } from '../../types/travel';
+import { searchFlexibleDates, validateFlexibleDateOptions } from '../../lib/flexible-dates';
+import { resolveSimulationSettings } from '../../lib/providers/simulation';
+import { tripDetailsErrors } from '../../lib/trip-validation';
+import { describeFieldError } from '../../lib/trip-schema';
+
+/**
+ * Price every date pair around the trip's dates.
+ *
+ * POST /api/flexible-dates?days=3&length=fixed|varying
+ * Body: TripDetails. Simulation query parameters work as for /api/check-prices.
+ */
+export const POST: APIRoute = async ({ request, url }) => {
+  try {
+    const tripDetails: TripDetails = await request.json();
+
+    const fieldErrors = tripDetailsErrors(tripDetails);
+    if (fieldErrors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: describeFieldError(fieldErrors[0]), fields: fieldErrors }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const options = {
+      days: parseInt(url.searchParams.get('days') || '3', 10),
+      fixedLength: url.searchParams.get('length') !== 'varying',
+    };
+
+    const invalid = validateFlexibleDateOptions(tripDetails, options);
+    if (invalid) {
+      return new Response(
+        JSON.stringify({ error: invalid }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const simulation = resolveSimulationSettings(url.searchParams);
+    const grid = await searchFlexibleDates(tripDetails, options, simulation);
+
+    return new Response(
+      JSON.stringify(grid),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error searching flexible dates:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to search flexible dates',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,87 @@
+import type { APIRoute } from 'astro';
+import type { TripDetails, PriceSnapshot } from '../../types/travel';
+import { forecastPrices, DEFAULT_FORECAST_OBSERVATIONS } from '../../lib/forecast';
+import { loadPriceHistory } from '../../lib/price-history';
+import { tripDetailsErrors } from '../../lib/trip-validation';
+import { describeFieldError } from '../../lib/trip-schema';
+import { findTrip } from '../../lib/trips';
+
+/**
+ * Forecast where the trip's prices are heading and advise whether to book
+ * now or wait, from its earlier price checks
+ *
+ * POST /api/forecast
+ * Body: { tripDetails, history? } or { tripId, history? }
+ * - tripId: a stored trip (see /api/trips). Its saved details are used and
+ *   all its checks count, including those from before it was edited
+ * - history: earlier price checks. When omitted, the signed-in user's stored
+ *   price history is loaded from the SmartBucket,
+ *   only the stored trip's checks when tripId is given
+ * - Answers 503 when the stored history can't be loaded
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const body = await request.json();
+    const userId = locals.user?.id;
+    const tripId: string | undefined = body.tripId || undefined;
+    let tripDetails: TripDetails = body.tripDetails;
+
+    if (tripId) {
+      const trip = await findTrip(tripId, userId);
+      if (!trip) {
+        return new Response(
+          JSON.stringify({ error: 'Trip not found' }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+      tripDetails = trip.tripDetails;
+    }
+
+    const fieldErrors = tripDetailsErrors(tripDetails, 'tripDetails');
+    if (fieldErrors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: describeFieldError(fieldErrors[0]), fields: fieldErrors }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let history: PriceSnapshot[] = Array.isArray(body.history) ? body.history : [];
+
+    if (history.length === 0) {
+      const bucketName = process.env.RAINDROP_SMARTBUCKET_NAME || import.meta.env.RAINDROP_SMARTBUCKET_NAME;
+
+      if (userId && bucketName) {
+        try {
+          history = await loadPriceHistory(bucketName, userId, DEFAULT_FORECAST_OBSERVATIONS, tripId);
+        } catch (raindropError) {
+          // Not an empty history: a forecast without the stored checks would say there isn't enough data
+          console.error('❌ Raindrop error loading price history:', raindropError);
+          return new Response(
+            JSON.stringify({
+              error: 'Price history is unavailable, try again shortly',
+              details: raindropError instanceof Error ? raindropError.message : 'Unknown error'
+            }),
+            { status: 503, headers: { 'Content-Type': 'application/json' } }
+          );
+        }
+      }
+    }
+
+    const forecast = await forecastPrices(tripDetails, history, tripId);
+    console.log(`🔮 Forecast: ${forecast.summary} (${forecast.observations} observations)`);
+
+    return new Response(
+      JSON.stringify(forecast),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error forecasting prices:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to forecast prices',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -1,26 +1,27 @@
 import type { APIRoute } from 'astro';
-import { getRaindropClient, getSmartBucketLocation } from '../../lib/raindrop.js';
+import { loadPriceHistory } from '../../lib/price-history';
 
 /**
- * Get price history for a user from SmartBuckets
+ * Get the signed-in user's price history from SmartBuckets
  *
  * Query params:
- * - userId: User ID to get history for (required)
  * - limit: Number of results to return (default: 20)
+ * - tripId: Only checks of this stored trip (see /api/trips)
  */
-export const GET: APIRoute = async ({ url, request }) => {
+export const GET: APIRoute = async ({ url, locals }) => {
   try {
-    const userId = url.searchParams.get('userId');
+    const userId = locals.user?.id;
     const limit = parseInt(url.searchParams.get('limit') || '20', 10);
+    const tripId = url.searchParams.get('tripId') || undefined;
 
     if (!userId) {
       return new Response(
-        JSON.stringify({ error: 'userId query parameter is required' }),
-        { status: 400, headers: { 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: 'Sign in required' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
       );
     }
 
-    console.log(`📊 Fetching price history for user: ${userId} (limit: ${limit})`);
+    console.log(`📊 Fetching price history for user: ${userId}${tripId ? `, trip ${tripId}` : ''} (limit: ${limit})`);
 
     // Get bucket name from environment
     const bucketName = process.env.RAINDROP_SMARTBUCKET_NAME ||
@@ -44,69 +45,13 @@ export const GET: APIRoute = async ({ url, request }) => {
     }
 
     try {
-      const client = getRaindropClient();
-      const bucketLocation = getSmartBucketLocation(bucketName);
-
-      // List all objects in the bucket
-      console.log(`🔍 Listing objects in bucket: ${bucketName}`);
-      const listResult = await client.bucket.list({
-        bucketLocation,
-      });
-
-      console.log(`📦 Found ${listResult.objects?.length || 0} total objects in bucket`);
-
-      // Filter for price snapshots for this user
-      const priceObjects = listResult.objects?.filter((obj: any) =>
-        obj.key.startsWith(`price-${userId}-`)
-      ) || [];
-
-      console.log(`💰 Found ${priceObjects.length} price snapshots for user ${userId}`);
-
-      // Sort by timestamp (newest first) and limit
-      const sortedObjects = priceObjects
-        .sort((a: any, b: any) => {
-          const timeA = new Date(a.lastModified).getTime();
-          const timeB = new Date(b.lastModified).getTime();
-          return timeB - timeA; // Newest first
-        })
-        .slice(0, limit);
-
-      // Fetch the actual price data for each snapshot
-      const priceHistory = await Promise.all(
-        sortedObjects.map(async (obj: any) => {
-          try {
-            const result = await client.bucket.get({
-              bucketLocation,
-              key: obj.key,
-            });
-
-            // Decode base64 content
-            const jsonString = Buffer.from(result.content || '', 'base64').toString('utf-8');
-            const data = JSON.parse(jsonString);
-
-            return {
-              key: obj.key,
-              timestamp: data.timestamp || obj.lastModified,
-              lastModified: obj.lastModified,
-              size: obj.size,
-              ...data,
-            };
-          } catch (err) {
-            console.error(`❌ Error fetching price snapshot ${obj.key}:`, err);
-            return null;
-          }
-        })
-      );
-
-      // Filter out any failed fetches
-      const validHistory = priceHistory.filter(h => h !== null);
-
-      console.log(`✅ Successfully retrieved ${validHistory.length} price snapshots`);
+      const validHistory = await loadPriceHistory(bucketName, userId, limit, tripId);
 
       return new Response(
         JSON.stringify({
           success: true,
           userId,
+          tripId,
           count: validHistory.length,
           history: validHistory,
         }),
@@ -0,0 +1,119 @@
+import type { APIRoute } from 'astro';
+import type { TripMonitor } from '../../../types/travel';
+import {
+  getMonitor,
+  saveMonitor,
+  applyMonitorAction,
+  monitorActionError,
+  rescheduleMonitor,
+  resolveInterval,
+  MONITOR_ACTIONS,
+  MIN_INTERVAL_MINUTES,
+  MAX_INTERVAL_MINUTES,
+  type MonitorAction,
+} from '../../../lib/monitoring';
+
+/**
+ * The monitor, unless it belongs to another user than the one signed in
+ */
+async function findMonitor(id: string | undefined, userId: string | undefined): Promise<TripMonitor | null> {
+  const monitor = id && userId ? await getMonitor(userId, id) : null;
+  return monitor && userId && monitor.userId === userId ? monitor : null;
+}
+
+function notFound(): Response {
+  return new Response(
+    JSON.stringify({ error: 'Monitor not found' }),
+    { status: 404, headers: { 'Content-Type': 'application/json' } }
+  );
+}
+
+/**
+ * GET /api/monitors/:id
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    const monitor = await findMonitor(params.id, locals.user?.id);
+    if (!monitor) {
+      return notFound();
+    }
+
+    return new Response(
+      JSON.stringify(monitor),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('❌ Error loading monitor:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to load monitor',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+/**
+ * Pause, resume or stop a monitor, or change how often it runs
+ *
+ * PATCH /api/monitors/:id
+ * Body: { action?: 'pause' | 'resume' | 'stop', intervalMinutes? }
+ */
+export const PATCH: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const body = await request.json();
+    const action: MonitorAction | undefined = body.action;
+
+    if (action !== undefined && !MONITOR_ACTIONS.includes(action)) {
+      return new Response(
+        JSON.stringify({ error: `action must be one of: ${MONITOR_ACTIONS.join(', ')}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const intervalMinutes = body.intervalMinutes === undefined ? undefined : resolveInterval(body.intervalMinutes);
+    if (intervalMinutes === null) {
+      return new Response(
+        JSON.stringify({ error: `intervalMinutes must be a whole number from ${MIN_INTERVAL_MINUTES} to ${MAX_INTERVAL_MINUTES}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let monitor = await findMonitor(params.id, locals.user?.id);
+    if (!monitor) {
+      return notFound();
+    }
+
+    const actionError = action ? monitorActionError(monitor, action) : null;
+    if (actionError) {
+      return new Response(
+        JSON.stringify({ error: actionError, status: monitor.status }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (intervalMinutes !== undefined) {
+      monitor = rescheduleMonitor(monitor, intervalMinutes);
+    }
+    if (action) {
+      monitor = applyMonitorAction(monitor, action);
+      console.log(`🛰️ Monitor ${monitor.id} ${monitor.status}`);
+    }
+    await saveMonitor(monitor);
+
+    return new Response(
+      JSON.stringify(monitor),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('❌ Error updating monitor:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to update monitor',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
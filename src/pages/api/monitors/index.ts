@@ -0,0 +1,106 @@
+import type { APIRoute } from 'astro';
+import type { TripDetails } from '../../../types/travel';
+import { createMonitor, listMonitors, resolveInterval, MIN_INTERVAL_MINUTES, MAX_INTERVAL_MINUTES } from '../../../lib/monitoring';
+import { tripDetailsErrors } from '../../../lib/trip-validation';
+import { describeFieldError } from '../../../lib/trip-schema';
+import { findTrip } from '../../../lib/trips';
+
+/**
+ * List a user's monitors
+ *
+ * GET /api/monitors
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  const userId = locals.user?.id;
+  if (!userId) {
+    return new Response(
+      JSON.stringify({ error: 'Sign in required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const monitors = await listMonitors(userId);
+    return new Response(
+      JSON.stringify({ userId, count: monitors.length, monitors }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('❌ Error listing monitors:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to list monitors',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+/**
+ * Have the server check a trip on a schedule, independent of the dashboard.
+ * Each run is saved to the user's price history.
+ *
+ * POST /api/monitors
+ * Body: { tripDetails, intervalMinutes? } (default 60 minutes)
+ * - or { tripId, intervalMinutes? } to monitor a stored trip; runs follow
+ *   changes to the trip and stop when it is archived or deleted
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const userId = locals.user?.id;
+    const body = await request.json();
+    let tripDetails: TripDetails = body.tripDetails;
+
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Sign in required' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const trip = body.tripId ? await findTrip(body.tripId, userId) : null;
+    if (body.tripId && (!trip || trip.status === 'archived')) {
+      return new Response(
+        JSON.stringify({ error: trip ? 'Trip is archived; restore it to monitor it' : 'Trip not found' }),
+        { status: trip ? 409 : 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    if (trip) {
+      tripDetails = trip.tripDetails;
+    }
+
+    const fieldErrors = tripDetailsErrors(tripDetails, 'tripDetails');
+    if (fieldErrors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: describeFieldError(fieldErrors[0]), fields: fieldErrors }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const intervalMinutes = resolveInterval(body.intervalMinutes);
+    if (intervalMinutes === null) {
+      return new Response(
+        JSON.stringify({ error: `intervalMinutes must be a whole number from ${MIN_INTERVAL_MINUTES} to ${MAX_INTERVAL_MINUTES}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const monitor = await createMonitor(userId, tripDetails, intervalMinutes, Date.now(), trip?.id);
+    console.log(`🛰️ Monitoring ${tripDetails.origin} → ${tripDetails.destination} every ${intervalMinutes} minutes (${monitor.id})`);
+
+    return new Response(
+      JSON.stringify(monitor),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('❌ Error creating monitor:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to create monitor',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,70 @@
+import type { APIRoute } from 'astro';
+import { runDueMonitors } from '../../../lib/monitoring';
+import { retryPendingDeliveries, type DeliveryRetryTick } from '../../../lib/notifications';
+import { timingSafeEqual } from 'crypto';
+
+function bearerMatches(header: string | null, secret: string): boolean {
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(header || '');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Run every monitor that is due, then retry failed notifications. Called
+ * by the scheduled function (netlify/functions/monitor-trips.mts) and, in
+ * development, by `npm run monitor`.
+ *
+ * POST /api/monitors/run
+ * Headers: Authorization: Bearer <MONITOR_RUN_SECRET>. Only `astro dev`
+ * runs without the secret set, since every run spends search and model credits.
+ */
+export const POST: APIRoute = async ({ request }) => {
+  const secret = process.env.MONITOR_RUN_SECRET || import.meta.env.MONITOR_RUN_SECRET;
+  if (!secret && !import.meta.env.DEV) {
+    console.error('❌ MONITOR_RUN_SECRET is not set, refusing to run monitors');
+    return new Response(
+      JSON.stringify({ error: 'MONITOR_RUN_SECRET is not set' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+  if (secret && !bearerMatches(request.headers.get('authorization'), secret)) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const batchSize = parseInt(process.env.MONITOR_BATCH_SIZE || import.meta.env.MONITOR_BATCH_SIZE || '', 10);
+    const tick = await runDueMonitors(Number.isFinite(batchSize) && batchSize > 0 ? { limit: batchSize } : {});
+    console.log(`🛰️ Monitor tick: ${tick.checked.length} of ${tick.due} due monitors checked`);
+
+    let deliveries: DeliveryRetryTick = { retried: [], pending: 0 };
+    try {
+      deliveries = await retryPendingDeliveries();
+    } catch (err) {
+      console.error('❌ Error retrying notifications:', err);
+    }
+
+    return new Response(
+      JSON.stringify({
+        due: tick.due,
+        checked: tick.checked.map(({ id, status, lastRun, nextRunAt }) => ({ id, status, lastRun, nextRunAt })),
+        deliveries: {
+          pending: deliveries.pending,
+          retried: deliveries.retried.map(({ id, status, attempts, lastError }) => ({ id, status, attempts, lastError })),
+        },
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('❌ Error running monitors:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to run monitors',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
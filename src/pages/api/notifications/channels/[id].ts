@@ -0,0 +1,96 @@
+import type { APIRoute } from 'astro';
+import type { NotificationChannel } from '../../../../types/travel';
+import {
+  findNotificationChannel,
+  saveNotificationChannel,
+  deleteNotificationChannel,
+  notificationChannelError,
+  publicChannel,
+  sendChannelConfirmation,
+} from '../../../../lib/notifications';
+import { createWebhookSecret } from '../../../../lib/notifications/webhook';
+
+function notFound(): Response {
+  return new Response(
+    JSON.stringify({ error: 'Notification channel not found' }),
+    { status: 404, headers: { 'Content-Type': 'application/json' } }
+  );
+}
+
+/**
+ * Change a channel's target, turn it on or off, or replace a webhook's
+ * signing secret. The new secret is returned, this once. A new email
+ * address has to be confirmed again.
+ *
+ * PATCH /api/notifications/channels/:id
+ * Body: { target?, enabled?, rotateSecret? }
+ */
+export const PATCH: APIRoute = async ({ params, request, url, locals }) => {
+  try {
+    const { target, enabled, rotateSecret } = await request.json();
+    const channel = await findNotificationChannel(params.id, locals.user?.id);
+    if (!channel) {
+      return notFound();
+    }
+
+    const newTarget = typeof target === 'string' ? target.trim() : channel.target;
+    const updated: NotificationChannel = {
+      ...channel,
+      target: newTarget,
+      confirmedAt: newTarget === channel.target ? channel.confirmedAt : undefined,
+      enabled: typeof enabled === 'boolean' ? enabled : channel.enabled,
+      secret: rotateSecret && channel.type === 'webhook' ? createWebhookSecret() : channel.secret,
+      updatedAt: new Date().toISOString(),
+    };
+    const validationError = notificationChannelError(updated);
+    if (validationError) {
+      return new Response(
+        JSON.stringify({ error: validationError }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    await saveNotificationChannel(updated);
+    if (updated.type === 'email' && newTarget !== channel.target) {
+      await sendChannelConfirmation(updated, url);
+    }
+    return new Response(
+      JSON.stringify(rotateSecret ? updated : publicChannel(updated)),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('❌ Error updating notification channel:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to update notification channel',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+/**
+ * DELETE /api/notifications/channels/:id
+ * Pending deliveries to the channel fail on their next retry.
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  try {
+    const channel = await findNotificationChannel(params.id, locals.user?.id);
+    if (!channel) {
+      return notFound();
+    }
+
+    await deleteNotificationChannel(channel);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error('❌ Error deleting notification channel:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to delete notification channel',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
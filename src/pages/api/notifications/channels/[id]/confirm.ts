@@ -0,0 +1,41 @@
+import type { APIRoute } from 'astro';
+import { findNotificationChannel, isChannelConfirmed, sendChannelConfirmation, CHANNEL_CONFIRMATION_TTL_HOURS } from '../../../../../lib/notifications';
+
+/**
+ * Send an email channel's confirmation link again, e.g. after the first
+ * one expired
+ *
+ * POST /api/notifications/channels/:id/confirm
+ */
+export const POST: APIRoute = async ({ params, url, locals }) => {
+  try {
+    const channel = await findNotificationChannel(params.id, locals.user?.id);
+    if (!channel) {
+      return new Response(
+        JSON.stringify({ error: 'Notification channel not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    if (isChannelConfirmed(channel)) {
+      return new Response(
+        JSON.stringify({ error: channel.type === 'email' ? 'Email address is already confirmed' : 'Only email channels are confirmed' }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    await sendChannelConfirmation(channel, url);
+    return new Response(
+      JSON.stringify({ sent: true, expiresInHours: CHANNEL_CONFIRMATION_TTL_HOURS }),
+      { status: 202, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('❌ Error sending channel confirmation:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to send confirmation link',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,44 @@
+import type { APIRoute } from 'astro';
+import { findNotificationChannel, isChannelConfirmed, sendNotification } from '../../../../../lib/notifications';
+import { renderTestNotification } from '../../../../../lib/notifications/templates';
+
+/**
+ * Send a test notification through a channel, e.g. to a local SMTP catcher
+ * or webhook receiver. Responds with the delivery, failed or not. Email
+ * addresses have to be confirmed first.
+ *
+ * POST /api/notifications/channels/:id/test
+ */
+export const POST: APIRoute = async ({ params, locals }) => {
+  try {
+    const channel = await findNotificationChannel(params.id, locals.user?.id);
+    if (!channel) {
+      return new Response(
+        JSON.stringify({ error: 'Notification channel not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!isChannelConfirmed(channel)) {
+      return new Response(
+        JSON.stringify({ error: 'Confirm the email address first, with the link sent to it' }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const delivery = await sendNotification(channel, renderTestNotification());
+    return new Response(
+      JSON.stringify(delivery),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('❌ Error sending test notification:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to send test notification',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,90 @@
+import type { APIRoute } from 'astro';
+import {
+  listNotificationChannels,
+  createNotificationChannel,
+  notificationChannelError,
+  publicChannel,
+  sendChannelConfirmation,
+} from '../../../../lib/notifications';
+
+/**
+ * A user's notification channels. Webhook secrets are left out.
+ *
+ * GET /api/notifications/channels
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  const userId = locals.user?.id;
+  if (!userId) {
+    return new Response(
+      JSON.stringify({ error: 'Sign in required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const channels = await listNotificationChannels(userId);
+    return new Response(
+      JSON.stringify({ userId, count: channels.length, channels: channels.map(publicChannel) }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('❌ Error listing notification channels:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to list notification channels',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+/**
+ * Add an email address or webhook URL that deal alerts are sent to.
+ * Webhook channels are returned with their signing secret, this once.
+ * Email addresses are sent a confirmation link and get nothing until it is
+ * followed.
+ *
+ * POST /api/notifications/channels
+ * Body: { type: 'email' | 'webhook', target, secret?, enabled? }
+ */
+export const POST: APIRoute = async ({ request, url, locals }) => {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Sign in required' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { type, target, secret, enabled } = await request.json();
+    const validationError = notificationChannelError({ type, target });
+    if (validationError) {
+      return new Response(
+        JSON.stringify({ error: validationError }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const channel = await createNotificationChannel(userId, { type, target, secret, enabled: enabled !== false });
+    console.log(`📨 Added ${channel.type} notification channel ${channel.id}`);
+    if (channel.type === 'email') {
+      await sendChannelConfirmation(channel, url);
+    }
+
+    return new Response(
+      JSON.stringify(channel),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('❌ Error creating notification channel:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to create notification channel',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,32 @@
+import type { APIRoute } from 'astro';
+import { confirmNotificationChannel } from '../../../lib/notifications';
+
+/**
+ * Where a new email channel's confirmation link leads. Works without
+ * signing in: following the link from the inbox is the confirmation.
+ *
+ * GET /api/notifications/confirm?token=<token>
+ * - Opens /dashboard?channel=confirmed, or /dashboard?channel=link for used,
+ *   expired or unknown links
+ */
+export const GET: APIRoute = async ({ url, redirect }) => {
+  try {
+    const token = url.searchParams.get('token');
+    const channel = token ? await confirmNotificationChannel(token) : null;
+    if (!channel) {
+      return redirect('/dashboard?channel=link');
+    }
+
+    console.log(`✅ Confirmed email notification channel ${channel.id}`);
+    return redirect('/dashboard?channel=confirmed');
+  } catch (error) {
+    console.error('❌ Error confirming notification channel:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to confirm notification channel',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
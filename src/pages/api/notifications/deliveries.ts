@@ -0,0 +1,38 @@
+import type { APIRoute } from 'astro';
+import { listNotificationDeliveries } from '../../../lib/notifications';
+
+/**
+ * A user's notification delivery log, newest first: what was sent where,
+ * how many attempts it took, and the last error of those that failed or
+ * are waiting for a retry
+ *
+ * GET /api/notifications/deliveries?limit=20
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+  const userId = locals.user?.id;
+  const limit = parseInt(url.searchParams.get('limit') || '20', 10);
+
+  if (!userId) {
+    return new Response(
+      JSON.stringify({ error: 'Sign in required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const deliveries = await listNotificationDeliveries(userId, limit);
+    return new Response(
+      JSON.stringify({ userId, count: deliveries.length, deliveries }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('❌ Error listing notification deliveries:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to list notification deliveries',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,70 @@
+import type { APIRoute } from 'astro';
+import type { TripDetails, PriceSnapshot } from '../../types/travel';
+import { optimizeBudget, DEFAULT_OBSERVATION_LIMIT } from '../../lib/budget-optimizer';
+import { loadPriceHistory } from '../../lib/price-history';
+import { tripDetailsErrors } from '../../lib/trip-validation';
+import { describeFieldError } from '../../lib/trip-schema';
+
+/**
+ * Propose category budgets that make the trip fit its total budget,
+ * based on recently observed prices
+ *
+ * POST /api/optimize-budget
+ * Body: { tripDetails, history? }
+ * - history: recent price checks. When omitted, the signed-in user's stored
+ *   price history is loaded from the SmartBucket
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const body = await request.json();
+    const tripDetails: TripDetails = body.tripDetails;
+
+    const fieldErrors = tripDetailsErrors(tripDetails, 'tripDetails');
+    if (fieldErrors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: describeFieldError(fieldErrors[0]), fields: fieldErrors }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let history: PriceSnapshot[] = Array.isArray(body.history) ? body.history : [];
+
+    if (history.length === 0) {
+      const userId = locals.user?.id;
+      const bucketName = process.env.RAINDROP_SMARTBUCKET_NAME || import.meta.env.RAINDROP_SMARTBUCKET_NAME;
+
+      if (userId && bucketName) {
+        try {
+          history = await loadPriceHistory(bucketName, userId, DEFAULT_OBSERVATION_LIMIT);
+        } catch (raindropError) {
+          console.error('❌ Raindrop error loading price history:', raindropError);
+        }
+      }
+    }
+
+    const allocation = await optimizeBudget(tripDetails, history);
+
+    if (!allocation) {
+      return new Response(
+        JSON.stringify({ error: 'No observed prices for this trip yet. Run a price check first.' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`⚖️ Budget allocation: ${allocation.feasible ? 'feasible' : `short by ${allocation.currency} ${allocation.shortfall}`} (${allocation.observations} observations)`);
+
+    return new Response(
+      JSON.stringify(allocation),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error optimizing budget:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to optimize budget',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,99 @@
+import type { APIRoute } from 'astro';
+import type { TripDetails, PriceSnapshot } from '../../types/travel';
+import { priceStatistics, DEFAULT_STATS_OBSERVATIONS, MAX_STATS_OBSERVATIONS } from '../../lib/price-stats';
+import { loadPriceHistory } from '../../lib/price-history';
+import { tripDetailsErrors } from '../../lib/trip-validation';
+import { describeFieldError } from '../../lib/trip-schema';
+import { findTrip } from '../../lib/trips';
+
+/**
+ * Aggregate a trip's price checks: min, max, mean, median and percentile
+ * bands per category and for the total, hourly and daily series, and the
+ * best price ever seen
+ *
+ * POST /api/price-stats
+ * Body: { tripDetails, history? } or { tripId, history? }
+ * - tripId: a stored trip (see /api/trips). Its saved details are used and
+ *   all its checks count, including those from before it was edited
+ * - history: price checks to aggregate. When omitted, the signed-in user's stored
+ *   price history is loaded from the SmartBucket,
+ *   only the stored trip's checks when tripId is given
+ * - Answers 503 when the stored history can't be loaded
+ *
+ * Query params:
+ * - limit: Stored checks to load, newest first (default: 500, max: 2000)
+ */
+export const POST: APIRoute = async ({ request, url, locals }) => {
+  try {
+    const body = await request.json();
+    const userId = locals.user?.id;
+    const tripId: string | undefined = body.tripId || undefined;
+    let tripDetails: TripDetails = body.tripDetails;
+
+    if (tripId) {
+      const trip = await findTrip(tripId, userId);
+      if (!trip) {
+        return new Response(
+          JSON.stringify({ error: 'Trip not found' }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+      tripDetails = trip.tripDetails;
+    }
+
+    const fieldErrors = tripDetailsErrors(tripDetails, 'tripDetails');
+    if (fieldErrors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: describeFieldError(fieldErrors[0]), fields: fieldErrors }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const limit = parseInt(url.searchParams.get('limit') || String(DEFAULT_STATS_OBSERVATIONS), 10);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_STATS_OBSERVATIONS) {
+      return new Response(
+        JSON.stringify({ error: `limit must be between 1 and ${MAX_STATS_OBSERVATIONS}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let history: PriceSnapshot[] = Array.isArray(body.history) ? body.history : [];
+
+    if (history.length === 0) {
+      const bucketName = process.env.RAINDROP_SMARTBUCKET_NAME || import.meta.env.RAINDROP_SMARTBUCKET_NAME;
+
+      if (userId && bucketName) {
+        try {
+          history = await loadPriceHistory(bucketName, userId, limit, tripId);
+        } catch (raindropError) {
+          // Not an empty history: statistics without the stored checks would look like "no data"
+          console.error('❌ Raindrop error loading price history:', raindropError);
+          return new Response(
+            JSON.stringify({
+              error: 'Price history is unavailable, try again shortly',
+              details: raindropError instanceof Error ? raindropError.message : 'Unknown error'
+            }),
+            { status: 503, headers: { 'Content-Type': 'application/json' } }
+          );
+        }
+      }
+    }
+
+    const statistics = await priceStatistics(tripDetails, history, tripId);
+    console.log(`📐 Price statistics: ${statistics.observations} checks, ${statistics.series.daily.length} days`);
+
+    return new Response(
+      JSON.stringify(statistics),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error computing price statistics:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to compute price statistics',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -1,11 +1,27 @@
 import type { APIRoute } from 'astro';
 import Raindrop from '@liquidmetal-ai/lm-raindrop';
+import { callSdk } from '../../lib/resilience';
+import { documentPrefix } from '../../lib/documents';
 
 export const prerender = false;
 
-export const POST: APIRoute = async ({ request }) => {
+/**
+ * Search the signed-in user's uploaded documents
+ *
+ * POST /api/search
+ * Body: { input }
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+    const userId = locals.user?.id;
+    if (!userId) {
+        return new Response(
+            JSON.stringify({ error: 'Sign in required' }),
+            { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+
     try {
-        const { input, bucketName } = await request.json();
+        const { input } = await request.json();
 
         if (!input) {
             return new Response(
@@ -16,7 +32,7 @@ export const POST: APIRoute = async ({ request }) => {
 
         const apiKey = import.meta.env.RAINDROP_API_KEY || process.env.RAINDROP_API_KEY;
         const client = new Raindrop({ apiKey });
-        const bucketToUse = bucketName || import.meta.env.RAINDROP_SMARTBUCKET_NAME || process.env.RAINDROP_SMARTBUCKET_NAME;
+        const bucketToUse = import.meta.env.RAINDROP_SMARTBUCKET_NAME || process.env.RAINDROP_SMARTBUCKET_NAME;
 
         if (!bucketToUse) {
             return new Response(
@@ -25,16 +41,19 @@ export const POST: APIRoute = async ({ request }) => {
             );
         }
 
-        const response = await client.query.chunkSearch({
+        const response = await callSdk('raindrop', options => client.query.chunkSearch({
             bucketLocations: [{ bucket: { name: bucketToUse } }],
             input,
             requestId: crypto.randomUUID(),
-        });
+        }, options));
 
-        console.log('Search response:', JSON.stringify(response, null, 2));
+        // The bucket also holds other users' documents and the app's own records
+        const prefix = documentPrefix(userId);
+        const results = (response.results || []).filter((result: any) => result.source?.object?.startsWith(prefix));
+        console.log(`🔍 Search found ${results.length} of the user's document chunks`);
 
         return new Response(
-            JSON.stringify(response),
+            JSON.stringify({ ...response, results }),
             {
                 status: 200,
                 headers: { 'Content-Type': 'application/json' }
@@ -0,0 +1,140 @@
+import type { APIRoute } from 'astro';
+import type { TripDetails } from '../../../types/travel';
+import {
+  findTrip,
+  saveTrip,
+  updateTrip,
+  applyTripAction,
+  tripActionError,
+  tripErrors,
+  deleteTrip,
+  TRIP_ACTIONS,
+  type TripAction,
+} from '../../../lib/trips';
+import { describeFieldError } from '../../../lib/trip-schema';
+
+function notFound(): Response {
+  return new Response(
+    JSON.stringify({ error: 'Trip not found' }),
+    { status: 404, headers: { 'Content-Type': 'application/json' } }
+  );
+}
+
+/**
+ * GET /api/trips/:id
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    const trip = await findTrip(params.id, locals.user?.id);
+    if (!trip) {
+      return notFound();
+    }
+
+    return new Response(
+      JSON.stringify(trip),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('❌ Error loading trip:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to load trip',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+/**
+ * Rename a trip, change its details, or archive or restore it
+ *
+ * PATCH /api/trips/:id
+ * Body: { name?, tripDetails?, action?: 'archive' | 'restore' }
+ * - tripDetails replaces the trip's details as a whole
+ * - Archiving stops the trip's monitors; restoring doesn't restart them
+ */
+export const PATCH: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const body = await request.json();
+    const action: TripAction | undefined = body.action;
+    const tripDetails: TripDetails | undefined = body.tripDetails;
+
+    if (action !== undefined && !TRIP_ACTIONS.includes(action)) {
+      return new Response(
+        JSON.stringify({ error: `action must be one of: ${TRIP_ACTIONS.join(', ')}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let trip = await findTrip(params.id, locals.user?.id);
+    if (!trip) {
+      return notFound();
+    }
+
+    const fieldErrors = tripErrors({ name: body.name, tripDetails: tripDetails || trip.tripDetails });
+    if (fieldErrors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: describeFieldError(fieldErrors[0]), fields: fieldErrors }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const actionError = action ? tripActionError(trip, action) : null;
+    if (actionError) {
+      return new Response(
+        JSON.stringify({ error: actionError, status: trip.status }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (body.name !== undefined || tripDetails) {
+      trip = await updateTrip(trip, { name: body.name, tripDetails });
+    }
+    if (action) {
+      trip = await applyTripAction(trip, action);
+      console.log(`🧳 Trip ${trip.id} ${trip.status}`);
+    }
+    await saveTrip(trip);
+
+    return new Response(
+      JSON.stringify(trip),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('❌ Error updating trip:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to update trip',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+/**
+ * DELETE /api/trips/:id
+ * Stops the trip's monitors. Its price checks stay in the user's history.
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  try {
+    const trip = await findTrip(params.id, locals.user?.id);
+    if (!trip) {
+      return notFound();
+    }
+
+    await deleteTrip(trip);
+    console.log(`🗑️ Deleted trip ${trip.id}`);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error('❌ Error deleting trip:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to delete trip',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,92 @@
+import type { APIRoute } from 'astro';
+import type { TripDetails, TripStatus } from '../../../types/travel';
+import { createTrip, listTrips, tripErrors, TRIP_STATUSES } from '../../../lib/trips';
+import { describeFieldError } from '../../../lib/trip-schema';
+
+/**
+ * List a user's trips, newest first
+ *
+ * GET /api/trips
+ * Query params:
+ * - status: active (default), archived or all
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+  const userId = locals.user?.id;
+  if (!userId) {
+    return new Response(
+      JSON.stringify({ error: 'Sign in required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const status = url.searchParams.get('status') || 'active';
+  if (status !== 'all' && !TRIP_STATUSES.includes(status as TripStatus)) {
+    return new Response(
+      JSON.stringify({ error: `status must be one of: ${[...TRIP_STATUSES, 'all'].join(', ')}` }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const trips = await listTrips(userId, status === 'all' ? undefined : status as TripStatus);
+    return new Response(
+      JSON.stringify({ userId, count: trips.length, trips }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('❌ Error listing trips:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to list trips',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+/**
+ * Save a trip. Its id scopes price checks, history and monitors to it.
+ *
+ * POST /api/trips
+ * Body: { tripDetails, name? } (default name: the route and start date)
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const userId = locals.user?.id;
+    const body = await request.json();
+    const tripDetails: TripDetails = body.tripDetails;
+
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Sign in required' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const fieldErrors = tripErrors({ name: body.name, tripDetails });
+    if (fieldErrors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: describeFieldError(fieldErrors[0]), fields: fieldErrors }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const trip = await createTrip(userId, { name: body.name, tripDetails });
+    console.log(`🧳 Saved trip ${trip.name} (${trip.id})`);
+
+    return new Response(
+      JSON.stringify(trip),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('❌ Error creating trip:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to create trip',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
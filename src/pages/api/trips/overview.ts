@@ -0,0 +1,47 @@
+import type { APIRoute } from 'astro';
+import type { TripStatus } from '../../../types/travel';
+import { listTripOverviews, TRIP_STATUSES } from '../../../lib/trips';
+
+/**
+ * Every trip of a user at a glance, newest first: the latest total against
+ * the budget, recent checks for a sparkline, the trip's monitor and the
+ * alerts it raised
+ *
+ * GET /api/trips/overview
+ * Query params:
+ * - status: active (default), archived or all
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+  const userId = locals.user?.id;
+  if (!userId) {
+    return new Response(
+      JSON.stringify({ error: 'Sign in required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const status = url.searchParams.get('status') || 'active';
+  if (status !== 'all' && !TRIP_STATUSES.includes(status as TripStatus)) {
+    return new Response(
+      JSON.stringify({ error: `status must be one of: ${[...TRIP_STATUSES, 'all'].join(', ')}` }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const overviews = await listTripOverviews(userId, status === 'all' ? undefined : status as TripStatus);
+    return new Response(
+      JSON.stringify({ userId, count: overviews.length, trips: overviews }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('❌ Error loading trip overview:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to load trip overview',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -1,13 +1,29 @@
 import type { APIRoute } from 'astro';
 import Raindrop from '@liquidmetal-ai/lm-raindrop';
+import { callSdk } from '../../lib/resilience';
+import { documentKey } from '../../lib/documents';
 
 export const prerender = false;
 
-export const POST: APIRoute = async ({ request }) => {
+/**
+ * Store a document in the SmartBucket under the signed-in user's prefix
+ *
+ * POST /api/upload
+ * Body: { key, content, contentType? } (content: base64)
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+    const userId = locals.user?.id;
+    if (!userId) {
+        return new Response(
+            JSON.stringify({ error: 'Sign in required' }),
+            { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+
     try {
-        const { key, content, contentType, bucketName } = await request.json();
+        const { key, content, contentType } = await request.json();
 
-        if (!key || !content) {
+        if (typeof key !== 'string' || !key || !content) {
             return new Response(
                 JSON.stringify({ error: 'Key and content are required' }),
                 { status: 400 }
@@ -16,7 +32,7 @@ export const POST: APIRoute = async ({ request }) => {
 
         const apiKey = import.meta.env.RAINDROP_API_KEY || process.env.RAINDROP_API_KEY;
         const client = new Raindrop({ apiKey });
-        const bucketToUse = bucketName || import.meta.env.RAINDROP_SMARTBUCKET_NAME || process.env.RAINDROP_SMARTBUCKET_NAME;
+        const bucketToUse = import.meta.env.RAINDROP_SMARTBUCKET_NAME || process.env.RAINDROP_SMARTBUCKET_NAME;
 
         if (!bucketToUse) {
             return new Response(
@@ -25,12 +41,12 @@ export const POST: APIRoute = async ({ request }) => {
             );
         }
 
-        const response = await client.bucket.put({
+        const response = await callSdk('raindrop', options => client.bucket.put({
             bucketLocation: { bucket: { name: bucketToUse } },
             content,
             contentType: contentType || 'application/pdf',
-            key,
-        });
+            key: documentKey(userId, key),
+        }, options));
 
         return new Response(
             JSON.stringify({
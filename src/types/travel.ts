@@ -30,33 +30,801 @@ export interface TripDetails {
   flightBudget: number;
   hotelBudgetPerNight: number;
   carBudgetPerDay: number;
+  currency?: string; // ISO 4217 code for all budgets (default: USD)
+  tripType?: TripType; // Default: round-trip, returning on endDate
+  legs?: TripLeg[]; // Multi-city itinerary; destination/startDate/endDate then describe the whole trip
+  adults?: number; // Default: 1
+  children?: number; // Default: 0, each priced as a full seat
+  rooms?: number; // Default: 1
+  budgetBasis?: BudgetBasis; // Default: 'trip'
+  components?: Record<string, boolean>; // Category id -> priced or not; unset categories use their default
+  budgets?: Record<string, number>; // Budgets for categories without a dedicated field above, by category id
   
   // Advanced preferences (optional)
   flightPreferences?: FlightPreferences;
   hotelPreferences?: HotelPreferences;
   carRentalPreferences?: CarRentalPreferences;
+  preferenceMatching?: PreferenceMatching; // Default: 'rank'
 }
 
-export interface PriceCheck {
-  flight: {
-    price: number;
-    carrier: string;
-    withinBudget: boolean;
-  };
-  hotel: {
-    pricePerNight: number;
-    name: string;
-    withinBudget: boolean;
-  };
-  car: {
-    pricePerDay: number;
-    type: string;
-    withinBudget: boolean;
-  };
+/**
+ * One problem with trip details or another request body, for forms to show
+ * next to the field
+ */
+export interface FieldError {
+  field: string; // Path into the body, e.g. 'endDate' or 'legs.1.startDate'
+  message: string; // Reads after the field name, e.g. 'must be on or after the start date'
+}
+
+/**
+ * What happens to offers that miss the trip's preferences:
+ * - 'rank': offers matching more preferences come first, then the cheapest
+ * - 'filter': offers violating any preference are dropped (unknowns are kept)
+ * - 'report': offers stay cheapest first; compliance is only reported
+ */
+export type PreferenceMatching = 'rank' | 'filter' | 'report';
+
+export type ComplianceStatus = 'met' | 'violated' | 'unknown';
+
+/**
+ * One preference checked against one offer
+ */
+export interface ConstraintCheck {
+  constraint: string; // Preference field, e.g. 'stops' or 'amenities.wifi'
+  expected: string; // e.g. 'nonstop'
+  actual?: string; // What the offer says, when it says anything
+  status: ComplianceStatus;
+}
+
+/**
+ * How well an offer matches the trip's preferences
+ */
+export interface PreferenceCompliance {
+  score: number; // 0-1: met counts fully, unknown half, violated not at all
+  violated: string[]; // Constraint ids
+  unknown: string[];
+  checks: ConstraintCheck[];
+}
+
+/**
+ * One stop of a multi-city itinerary. Travellers fly in on startDate
+ * (from the origin or the previous leg) and leave on endDate.
+ */
+export interface TripLeg {
+  destination: string;
+  startDate: string;
+  endDate: string;
+  needsHotel?: boolean; // Default: true
+  needsCar?: boolean; // Default: true
+  components?: Record<string, boolean>; // Per-leg overrides of TripDetails.components
+}
+
+/**
+ * Whether budgets cover the whole party ('trip') or each traveler ('per-person')
+ */
+export type BudgetBasis = 'trip' | 'per-person';
+
+export interface PartySize {
+  adults: number;
+  children: number;
+  rooms: number;
+}
+
+export type PriceCategory = 'flights' | 'hotels' | 'cars';
+
+export type TripType = 'round-trip' | 'one-way';
+
+export interface FlightSearchParams {
+  origin: string;
+  destination: string;
+  departureDate: string;
+  returnDate?: string; // Set to search round-trip fares
+  adults?: number;
+  children?: number;
+  preferences?: FlightPreferences;
+}
+
+export interface HotelSearchParams {
+  destination: string;
+  checkInDate: string;
+  guests?: number;
+  rooms?: number;
+  preferences?: HotelPreferences;
+}
+
+export interface CarSearchParams {
+  destination: string;
+  pickupDate: string;
+  preferences?: CarRentalPreferences;
+}
+
+/**
+ * How a price was obtained:
+ * - 'extracted': read from a live search result
+ * - 'recorded': replayed from a fixture file
+ * - 'simulated': generated, not a real price
+ * - 'derived': combined from other offers (one-way pairs, multi-city chains, averages)
+ */
+export type PriceMethod = 'extracted' | 'recorded' | 'simulated' | 'derived';
+
+/**
+ * Where a price came from, so it can be traced back and trusted (or not)
+ */
+export interface PriceProvenance {
+  provider: string; // Provider (or providers, ' / ' separated) that produced the price
+  method: PriceMethod;
+  query?: string; // Search sent to the provider
+  resultUrl?: string; // Search result the price was read from
+  snippetSpan?: [number, number]; // Start and end offsets of the price text in the search result
+  retrievedAt: string;
+}
+
+export interface OfferBase {
+  source: string; // Name of the provider that produced the offer
+  provenance: PriceProvenance;
+  confidence: number; // 0-1: how far the price can be trusted; see src/lib/confidence.ts
+  compliance?: PreferenceCompliance; // Set when the trip has preferences for the offer's category
+  vendor: string; // Site or company selling the offer, e.g. 'kayak.com'
+  bookingUrl?: string;
+  snippet?: string; // Raw text the offer was extracted from, if any
+  currency?: string; // ISO 4217 code; the trip currency once normalised
+  originalPrice?: number; // Price as quoted by the source, before conversion
+  originalCurrency?: string;
+  startDate?: string; // Travel dates quoted by the source, if any
+  endDate?: string;
+}
+
+/**
+ * A search result the provider could not turn into a valid offer
+ */
+export interface UnparsedResult {
+  source: string;
+  url?: string;
+  snippet: string;
+  reason: string;
+}
+
+export interface ProviderResult<T> {
+  offers: T[];
+  unparsed: UnparsedResult[];
+}
+
+export interface FlightSegment {
+  direction: 'outbound' | 'return';
+  origin: string;
+  destination: string;
+  date: string;
+  carrier: string;
+  price?: number; // Only set when the segment is ticketed separately
+}
+
+export interface FlightOffer extends OfferBase {
+  price: number; // Combined fare for every segment, per passenger
+  carrier: string;
+  tripType: TripType | 'multi-city';
+  bundled: boolean; // One ticket for all segments, rather than separate one-way tickets
+  segments: FlightSegment[];
+  // What the offer states about itself, when it does
+  stops?: number; // Most stops in any one direction
+  departureTime?: string; // Outbound departure, 'HH:MM' local time
+  checkedBags?: number; // Checked bags included per passenger
+  extraLegroom?: boolean;
+  seat?: 'aisle' | 'window';
+}
+
+export interface HotelOffer extends OfferBase {
+  pricePerNight: number; // Per room
+  name: string;
+  starRating?: number;
+  roomType?: 'single' | 'double' | 'suite';
+  amenities?: string[]; // Same ids as HotelPreferences.amenities
+  cancellationPolicy?: 'flexible' | 'moderate' | 'strict';
+}
+
+export interface CarOffer extends OfferBase {
+  pricePerDay: number;
+  type: string; // Free text, e.g. 'Compact' or 'Toyota RAV4 or similar'
+  transmission?: 'automatic' | 'manual';
+  mileage?: 'unlimited' | 'limited';
+  features?: string[]; // Same ids as CarRentalPreferences.features
+}
+
+/**
+ * Offer for a category without a dedicated offer type (rail, activities, ...)
+ */
+export interface CategoryOffer extends OfferBase {
+  price: number; // Per pricing unit of the category
+  name: string;
+}
+
+/**
+ * Search for a category without a dedicated provider method
+ */
+export interface CategorySearchParams {
+  category: string; // Category id, e.g. 'rail'
+  label: string; // e.g. 'Rail'
+  description: string; // What to price, e.g. 'train tickets from Paris to Rome departing on 2025-06-01'
+  priceUnit: string; // How prices should be quoted, e.g. 'price per passenger'
+  nameLabel: string; // What names each offer, e.g. 'rail operator'
+  typicalPrice: [number, number]; // USD range, used by the simulation provider
+  examples: string[]; // Typical offer names, used by the simulation provider
+  domains?: string[]; // Booking sites to search, if the category has preferred ones
+  origin: string;
+  destination: string;
+  startDate: string;
+  endDate: string;
+  returnDate?: string;
+  travelers: number;
+}
+
+/**
+ * A source of travel prices. Implementations live in src/lib/providers
+ * and are selected through the provider registry.
+ */
+export interface PriceProvider {
+  name: string;
+  searchFlights(params: FlightSearchParams): Promise<ProviderResult<FlightOffer>>;
+  searchHotels(params: HotelSearchParams): Promise<ProviderResult<HotelOffer>>;
+  searchCars(params: CarSearchParams): Promise<ProviderResult<CarOffer>>;
+  searchCategory?(params: CategorySearchParams): Promise<ProviderResult<CategoryOffer>>; // Optional: registry categories
+}
+
+/**
+ * How a category's price scales with the party and the trip length, and
+ * what its budget covers:
+ * - 'traveler': price per traveler for the trip; budget for the whole party
+ * - 'room-night': price per room per night; budget per night for every room
+ * - 'day': price per day for the party; budget per day
+ */
+export type PricingUnit = 'traveler' | 'room-night' | 'day';
+
+/**
+ * When a category is bought:
+ * - 'transport': to get to each stop (and back home for round trips)
+ * - 'stay': at each stop, for the nights spent there
+ * - 'trip': once for the whole trip
+ */
+export type CategoryScope = 'transport' | 'stay' | 'trip';
+
+/**
+ * What a category is asked to price: one hop, one stop or the whole trip
+ */
+export interface CategorySearchRequest {
+  origin: string;
+  destination: string;
+  startDate: string;
+  endDate: string;
+  returnDate?: string; // Transport only: price the way back on this date as well
+  party: PartySize;
+  tripDetails: TripDetails;
+}
+
+/**
+ * Where a category gets offers from during one price check. Prices come
+ * back converted to the trip currency.
+ */
+export interface OfferSources {
+  provider: PriceProvider;
+  fallback: PriceProvider;
+  currency: string;
+  // Search the provider, falling back to simulation when it has no offers
+  collect<T extends OfferBase>(label: string, search: (provider: PriceProvider) => Promise<ProviderResult<T>>, priceKey: keyof T): Promise<ProviderResult<T>>;
+  // Search the provider alone: an empty result on error, never a fallback
+  searchOnly<T extends OfferBase>(label: string, search: (provider: PriceProvider) => Promise<ProviderResult<T>>, priceKey: keyof T): Promise<ProviderResult<T>>;
+}
+
+/**
+ * A priceable trip component. Implementations live in src/lib/categories
+ * and are looked up through the category registry; pricing, budget checks,
+ * storage and the dashboard cards all work from these definitions.
+ */
+export interface TripCategory<T = any> {
+  id: string; // Key in PriceCheck.categories, TripDetails.components and TripDetails.budgets
+  label: string;
+  icon: string;
+  unit: PricingUnit;
+  scope: CategoryScope;
+  priceKey: string; // Offer field holding the price per unit
+  nameKey: string; // Offer field naming the offer
+  defaultEnabled: boolean;
+  budgetField?: 'flightBudget' | 'hotelBudgetPerNight' | 'carBudgetPerDay'; // TripDetails field holding the budget, if not in `budgets`
+  legField?: 'needsHotel' | 'needsCar'; // TripLeg flag that switches the category off for a leg
+  search(request: CategorySearchRequest, sources: OfferSources): Promise<ProviderResult<T>>;
+  // Transport only: combine the cheapest offer of every hop, and of the way home, into one offer
+  chain?(hops: CategoryResult<T>[], returnHop: CategoryResult<T> | null, currency: string): T;
+  // Check an offer against the trip's preferences for the category; empty when it has none
+  checkPreferences?(offer: T, tripDetails: TripDetails): ConstraintCheck[];
+}
+
+/**
+ * What the dashboard needs to show a priced category
+ */
+export interface CategoryInfo {
+  id: string;
+  label: string;
+  icon: string;
+  unit: PricingUnit;
+  scope: CategoryScope;
+  priceKey: string;
+  nameKey: string;
+  budget: number | null; // In the trip's currency and budget basis; null when the trip sets none
+}
+
+/**
+ * Best offer for a category, plus every offer found ranked cheapest first
+ */
+export type CategoryResult<T> = T & {
+  withinBudget: boolean;
+  bookingUrls: string[];
+  offers: T[];
+  unparsed: UnparsedResult[];
+  cache?: CacheInfo; // Unset when the result cache was bypassed (simulation mode)
+};
+
+/**
+ * Whether a search was answered from the shared result cache
+ */
+export interface CacheInfo {
+  hit: boolean; // Served from the cache, without a new search
+  stale: boolean; // Past its TTL: served while a refresh runs in the background
+  coalesced: boolean; // Shared a search another request had already started
+  ageSeconds: number; // Seconds since the search ran
+  fetchedAt: string;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Health of an external service (Perplexity, Anthropic, Raindrop) as seen
+ * by its circuit breaker
+ */
+export interface ServiceHealth {
+  service: string;
+  state: CircuitState; // 'open' rejects calls until retryAt; 'half-open' lets one trial call through
+  degraded: boolean; // Circuit not closed, or the last call failed
+  consecutiveFailures: number;
+  lastError?: string;
+  lastFailureAt?: string;
+  lastSuccessAt?: string;
+  retryAt?: string; // When an open circuit lets a call through again
+}
+
+/**
+ * Cheapest pick of one offer per category that fits every budget.
+ * Indexes point into each category's ranked `offers`.
+ */
+export interface OfferCombination {
+  indexes: Record<string, number>; // Category id -> offer index
   totalCost: number;
-  withinTotalBudget: boolean;
+}
+
+/**
+ * Ranked results for every priced category, keyed by category id
+ */
+export type CategoryResults = {
+  flight?: CategoryResult<FlightOffer>;
+  hotel?: CategoryResult<HotelOffer>;
+  car?: CategoryResult<CarOffer>;
+  [category: string]: CategoryResult<any> | undefined;
+};
+
+export type PriceCurve = 'random' | 'steady-drop' | 'spike' | 'volatile';
+
+/**
+ * Seeded simulation mode. With the same settings and trip, every run
+ * produces the same prices.
+ */
+export interface SimulationSettings {
+  enabled: boolean; // Price everything with the simulation provider
+  curve: PriceCurve;
+  seed?: string;
+  checkNumber: number; // Position on the price curve
+  date: string; // Day used in the seed (YYYY-MM-DD)
+}
+
+/**
+ * Prices for one leg of a multi-city itinerary
+ */
+export interface LegPriceCheck {
+  destination: string;
+  startDate: string;
+  endDate: string;
+  nights: number;
+  categories: CategoryResults; // Transport into this leg and everything booked there; categories it does not need are left out
+  totalCost: number; // Whole party
+}
+
+/**
+ * What the whole party pays, next to the per-person view
+ */
+export interface PartyCosts {
+  travelers: number;
+  byCategory: Record<string, number>; // Every seat, every room and night, every day
+  totalBudget: number; // Whole party, whatever the budget basis
+  costPerPerson: number;
+  budgetPerPerson: number;
+}
+
+export interface PriceCheck {
+  // Every priced category. For multi-city trips these summarise every leg:
+  // transport chains all hops, per-night and per-day prices are averaged
+  // over the nights booked and per-traveler prices are added up
+  categories: CategoryResults;
+  categoryInfo: CategoryInfo[]; // Priced categories, in display order
+  legs?: LegPriceCheck[]; // Per-leg breakdown, multi-city trips only
+  returnTransport?: CategoryResults; // Transport home after the last leg, multi-city trips only
+  bestCombination: OfferCombination | null;
+  totalCost: number; // Whole party
+  party: PartySize;
+  budgetBasis: BudgetBasis;
+  costs: PartyCosts;
+  currency: string; // Every price above is converted to this currency
+  exchangeRatesUpdatedAt: string;
+  withinTotalBudget: boolean; // Total fits the budget and the prices are trustworthy (see lowConfidence)
   timestamp: string;
+  provider: string;
+  simulated: boolean; // True when any category was priced by the simulation provider
+  simulation: SimulationSettings;
+  servedFromCache: boolean; // True when every category came from the result cache
+  confidence: number; // Lowest confidence of any priced category's best offer (1 when nothing is priced)
+  lowConfidence: boolean; // Some best offer is a guess, so withinTotalBudget is false whatever the total (never set in simulation mode)
+  degraded: ServiceHealth[]; // External services that are failing; prices from them were simulated instead
   userId?: string;
   sessionId?: string;
   raindropEnabled?: boolean;
+  alerts?: DealAlert[]; // Alert rules this check fired
+}
+
+/**
+ * One candidate date pair in a flexible-date search
+ */
+export interface FlexibleDateCell {
+  startDate: string;
+  endDate: string;
+  nights: number;
+  totalCost: number | null; // null when the pair could not be priced
+  costPerPerson: number | null;
+  withinBudget: boolean;
+  simulated: boolean;
+  error?: string;
+}
+
+/**
+ * Total costs for every date pair around the requested dates.
+ * With a fixed trip length there is one return date per departure date.
+ */
+export interface FlexibleDateGrid {
+  days: number; // Dates shifted up to this many days either way
+  fixedLength: boolean;
+  departureDates: string[];
+  returnDates: string[];
+  cells: FlexibleDateCell[];
+  cheapest: FlexibleDateCell | null;
+  currency: string;
+  timestamp: string;
+}
+
+/**
+ * A past price check, as saved to the SmartBucket or kept by the dashboard.
+ * Older snapshots may lack the newer fields.
+ */
+export type PriceSnapshot = Partial<Pick<PriceCheck, 'timestamp' | 'currency' | 'totalCost' | 'withinTotalBudget' | 'party'>> & {
+  costs?: Partial<PartyCosts> & { flights?: number; hotels?: number; cars?: number }; // Older snapshots split costs by fixed category
+  categories?: Record<string, Record<string, any>>;
+  flight?: { price: number }; // Older snapshots keep the three fixed categories at the top level
+  hotel?: { pricePerNight: number };
+  car?: { pricePerDay: number };
+  tripDetails?: Partial<TripDetails>;
+  tripId?: string; // Stored trip the check was for, if any
+};
+
+/**
+ * Budgets by category id, in the units of each category's budget
+ */
+export type CategoryBudgets = Record<string, number>;
+
+/**
+ * A proposed split of the total budget across categories, based on observed prices.
+ * Budgets are in the trip's currency and budget basis, ready to store in TripDetails.
+ */
+export interface BudgetAllocation {
+  feasible: boolean;
+  currency: string;
+  budgetBasis: BudgetBasis;
+  observations: number; // Price checks the expected costs are based on
+  categories: CategoryInfo[]; // Categories the trip prices, with their current budgets
+  expectedCosts: Record<string, number>; // Whole party, median of observations, by category id
+  expectedTotal: number; // Whole party
+  totalBudget: number; // Whole party
+  shortfall: number; // How far the expected total exceeds the budget, 0 when feasible
+  minimumTotalBudget: number; // Smallest totalBudget (in the trip's basis) that covers the expected costs
+  current: CategoryBudgets;
+  suggested: CategoryBudgets | null; // null when no split of the total budget covers the expected costs
+  apply: Partial<TripDetails> | null; // TripDetails fields that store the suggested budgets
+  explanation: string[];
+}
+
+/**
+ * Whether to book now or wait for a lower price
+ */
+export type ForecastAdvice = 'buy-now' | 'wait' | 'not-enough-data';
+
+/**
+ * Where one category's price (or the total) is heading, fitted from the trip's price history
+ */
+export interface CategoryForecast {
+  id: string; // Category id, or 'total'
+  label: string;
+  observations: number; // Earlier checks of the trip with this price
+  current: number | null; // Latest price: unit price for categories, whole party for the total
+  expected?: number; // Price expected at the horizon
+  low?: number; // 80% band around `expected`
+  high?: number;
+  trendPerDay?: number; // Fitted change per day, as a fraction of the price, apart from the departure effect
+  volatility?: number; // Spread of prices around the trend, as a fraction of the price
+  departureEffect?: number; // Expected rise over the horizon from departure getting closer, as a fraction
+  advice: ForecastAdvice;
+  confidence: number; // 0-1: chance the advice is right
+  reason: string;
+}
+
+/**
+ * Buy-now-or-wait advice for a trip, from its stored price checks
+ */
+export interface PriceForecast {
+  currency: string;
+  generatedAt: string;
+  daysToDeparture: number;
+  horizonDays: number; // How far ahead prices are forecast: a week, or until the day before departure
+  observations: number; // Price checks of the trip used
+  recommendation: ForecastAdvice; // The total's advice
+  confidence: number;
+  summary: string;
+  total: CategoryForecast;
+  categories: CategoryForecast[];
+}
+
+/**
+ * Spread of one category's price (or the total) over a trip's price checks
+ */
+export interface PriceSummary {
+  id: string; // Category id, or 'total'
+  label: string;
+  observations: number;
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  percentiles: { p10: number; p25: number; p75: number; p90: number };
+  best: { value: number; timestamp: string }; // Lowest price seen, and the check that first saw it
+  latest: number;
+}
+
+/**
+ * The trip's price checks within one hour or day
+ */
+export interface PriceBucket {
+  start: string; // Start of the hour or day, UTC
+  observations: number;
+  min: number; // Total, whole party
+  max: number;
+  mean: number;
+  last: number;
+  withinBudget: boolean; // Whether the bucket's last check was within the total budget
+  categories: Record<string, number>; // Lowest unit price by category id
+}
+
+export type PriceBucketSize = 'hour' | 'day';
+
+/**
+ * Aggregates of a trip's stored price checks, in the trip's currency
+ */
+export interface PriceStatistics {
+  currency: string;
+  generatedAt: string;
+  observations: number; // Price checks of the trip used
+  from: string | null; // First and last check
+  to: string | null;
+  total: PriceSummary | null; // null without any priced check
+  categories: PriceSummary[]; // Unit prices, for categories with at least one price
+  series: Record<'hourly' | 'daily', PriceBucket[]>; // Oldest first
+}
+
+export type TripStatus = 'active' | 'archived';
+
+/**
+ * A trip a user keeps, so it can be reopened on any device and checked
+ * alongside their other trips
+ */
+export interface Trip {
+  id: string;
+  userId: string;
+  name: string;
+  tripDetails: TripDetails;
+  status: TripStatus; // Archived trips are kept, with their history, but no longer monitored
+  createdAt: string;
+  updatedAt: string;
+  archivedAt?: string;
+}
+
+/**
+ * One trip on the overview: where its price stands and how it is watched
+ */
+export interface TripOverview {
+  trip: Trip;
+  latest: {
+    timestamp: string;
+    totalCost: number;
+    totalBudget: number; // Whole party, in the check's currency
+    currency: string;
+    withinTotalBudget: boolean;
+  } | null; // null until the trip's first stored check
+  recent: Array<{ timestamp: string; totalCost: number; withinTotalBudget: boolean }>; // Recent checks, oldest first
+  monitor: TripMonitor | null; // Active or paused monitor of the trip
+  alertCount: number; // Among the user's recent alerts
+  lastAlert: Pick<DealAlert, 'message' | 'triggeredAt'> | null;
+}
+
+export type MonitorStatus = 'active' | 'paused' | 'stopped';
+
+/**
+ * Outcome of one scheduled price check
+ */
+export interface MonitorRun {
+  timestamp: string;
+  totalCost?: number;
+  currency?: string;
+  withinTotalBudget?: boolean;
+  lowConfidence?: boolean;
+  snapshotKey?: string; // Price history entry the check was saved as
+  alertIds?: string[]; // Deal alerts the check fired
+  error?: string;
+}
+
+/**
+ * A trip checked on a schedule by the server, whether or not a dashboard is open
+ */
+export interface TripMonitor {
+  id: string;
+  userId: string; // Runs are saved to this user's price history
+  tripId?: string; // Stored trip being monitored, if any; runs then use its latest details
+  tripDetails: TripDetails;
+  intervalMinutes: number;
+  status: MonitorStatus; // 'stopped' is final; 'paused' can be resumed
+  createdAt: string;
+  updatedAt: string;
+  nextRunAt: string | null; // Set only while active
+  lastRun?: MonitorRun;
+  runCount: number;
+  consecutiveErrors: number;
+}
+
+/**
+ * What a deal alert rule watches for:
+ * - 'price-below': a category's price drops below `threshold`
+ * - 'total-drop': the total falls `percent`% below its average over the last `windowDays`
+ * - 'all-time-low': a category (or the total) is lower than in any earlier check
+ * - 'price-jump': a category (or the total) rises `percent`% after `stableChecks` checks that stayed within 2% of each other
+ */
+export type AlertRuleType = 'price-below' | 'total-drop' | 'all-time-low' | 'price-jump';
+
+/**
+ * A user's deal alert rule, checked after every price check of any of their trips
+ */
+export interface AlertRule {
+  id: string;
+  userId: string;
+  type: AlertRuleType;
+  category?: string; // Category id; the total when unset ('price-below' needs one, 'total-drop' never has one)
+  threshold?: number; // 'price-below': unit price in the trip currency, as category budgets are
+  percent?: number; // 'total-drop' and 'price-jump'
+  windowDays?: number; // 'total-drop' (default 7)
+  stableChecks?: number; // 'price-jump' (default 3)
+  cooldownMinutes: number; // Quiet time after the rule fires
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastTriggered?: Record<string, AlertTrigger>; // By trip (see tripHistoryKey): rules apply to every trip, cooldowns to each one
+}
+
+export interface AlertTrigger {
+  at: string;
+  fingerprint: string; // What the rule fired on; the same condition at the same prices doesn't fire again
+}
+
+/**
+ * A rule that fired, stored with the price check that fired it
+ */
+export interface DealAlert {
+  id: string;
+  ruleId: string;
+  userId: string;
+  type: AlertRuleType;
+  category?: string;
+  message: string;
+  value: number; // Price that fired the rule, in the snapshot's currency
+  reference?: number; // What it was compared with: threshold, average, previous low or stable price
+  triggeredAt: string;
+  snapshotKey?: string; // Price history entry, when the check was stored
+  snapshot: PriceSnapshot;
+}
+
+export type NotificationChannelType = 'email' | 'webhook';
+
+/**
+ * Where a user's deal alerts are sent
+ */
+export interface NotificationChannel {
+  id: string;
+  userId: string;
+  type: NotificationChannelType;
+  target: string; // Email address or webhook URL
+  secret?: string; // Webhooks: HMAC-SHA256 key for the signature header
+  confirmedAt?: string; // Email: when the address confirmed it wants the alerts. Nothing is sent before.
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Sends notifications over one kind of channel. Add new kinds with
+ * registerNotificationSender().
+ */
+export interface NotificationSender {
+  type: NotificationChannelType;
+  targetError(target: string): string | null; // Why a target can't be used, or null when it can
+  send(channel: NotificationChannel, message: NotificationMessage, deliveryId: string): Promise<void>;
+}
+
+/**
+ * A rendered notification, kept with its delivery so retries send the same thing
+ */
+export interface NotificationMessage {
+  event: 'deal.alert' | 'test';
+  subject: string;
+  text: string;
+  html: string;
+  payload: Record<string, unknown>; // Webhook JSON body
+}
+
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+/**
+ * One notification to one channel, with every attempt to send it
+ */
+export interface NotificationDelivery {
+  id: string;
+  userId: string;
+  channelId: string;
+  channelType: NotificationChannelType;
+  target: string;
+  alertIds: string[];
+  message: NotificationMessage;
+  status: DeliveryStatus; // 'pending' while retries remain
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt?: string; // Pending deliveries only
+  createdAt: string;
+  updatedAt: string;
+  deliveredAt?: string;
+}
+
+/**
+ * A signed-up user. Every trip, price check, monitor, alert and channel is
+ * stored under its id.
+ */
+export interface UserAccount {
+  id: string;
+  email: string; // Lower-cased
+  passwordHash?: string; // Unset for users who only sign in with emailed links
+  createdAt: string;
+  lastSignInAt?: string;
+}
+
+/**
+ * The user a request is signed in as, from its session cookie
+ */
+export interface SessionUser {
+  id: string;
+  email: string;
 }